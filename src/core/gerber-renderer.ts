@@ -1,9 +1,11 @@
 // src/core/gerber-renderer.ts
 
-import type { RenderFromZipOptions, LoadFromZipOptions } from "../types/options";
+import type { RenderFromZipOptions, LoadFromZipOptions, LoadProgress } from "../types/options";
 import type { PcbModelGeometry } from "../types/pcb-model";
 import { loadPcbGeometryFromZip as loadGeometry } from "./pipeline";
 import { Viewer3D } from "../render/three/viewer-3d";
+import { loadPcbGeometryInWorkers } from "../workers/parser-worker-bridge";
+import { throwIfAborted } from "../utils/error";
 
 /**
  * Thin wrapper around the pipeline to expose a nice geometry loader.
@@ -11,11 +13,16 @@ import { Viewer3D } from "../render/three/viewer-3d";
  * This is what you would call if you just want the parsed geometry:
  *
  *   const geom = await loadPcbGeometryFromZip(file, { boardThicknessMm: 1.6 });
+ *
+ * With options.useWorkers the work runs in a Web Worker pool.
  */
 export async function loadPcbGeometryFromZip(
   input: File | Blob | ArrayBuffer,
   options: LoadFromZipOptions = {}
 ): Promise<PcbModelGeometry> {
+  if (options.useWorkers && typeof Worker !== "undefined") {
+    return loadPcbGeometryInWorkers(input, options);
+  }
   return loadGeometry(input, options);
 }
 
@@ -52,16 +59,38 @@ export async function renderGerbersZip(
   input: File | Blob | ArrayBuffer,
   options: RenderFromZipOptions
 ): Promise<{ geometry: PcbModelGeometry; viewer?: Viewer3D }> {
-  const geometry = await loadGeometry(input, options);
+  // With a canvas, loading reports up to 0.9 and texture baking the rest
+  const { onProgress } = options;
+  const loadShare = options.canvas ? 0.9 : 1;
+  const scaled = (from: number, share: number) =>
+    onProgress &&
+    ((p: LoadProgress) => onProgress({ ...p, fraction: from + share * p.fraction }));
+
+  const geometry = await loadPcbGeometryFromZip(input, {
+    ...options,
+    onProgress: scaled(0, loadShare),
+  });
 
   let viewer: Viewer3D | undefined;
   if (options.canvas) {
+    throwIfAborted(options.signal);
+    // Baking blocks the main thread, let the UI paint the stage first
+    onProgress?.({ stage: "bake", fraction: loadShare });
+    await nextPaint();
+    throwIfAborted(options.signal);
     viewer = new Viewer3D(geometry, {
       canvas: options.canvas,
       autoResize: true,
       usePbrMaterials: true,
     });
+    onProgress?.({ stage: "bake", fraction: 1 });
   }
 
   return { geometry, viewer };
 }
+
+// Resolves once a frame has been painted: rAF callbacks run before the
+// paint, the timeout after it
+function nextPaint(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 0)));
+}
@@ -4,58 +4,216 @@ import { unzipGerbersZip } from "../io/unzip";
 import {
   classifyFiles,
   type ClassifiedFiles,
+  type ClassifiedDrillFile,
   type LayerHints,
+  type LayerRole,
 } from "../io/file-classifier";
 
-import type { LoadFromZipOptions } from "../types/options";
-import type { PcbModelGeometry } from "../types/pcb-model";
+import type { LoadFromZipOptions, LoadProgress, LoadStage } from "../types/options";
+import type {
+  PcbModelGeometry,
+  PcbStackupLayer,
+  PcbAppearance,
+  Polygon,
+} from "../types/pcb-model";
+import type { ParseDiagnostic } from "../types/diagnostics";
 
 // These types and functions are expected to be implemented later.
 import { parseGerberFile, type GerberPrimitives } from "../parse/gerber-parser";
+import type { GerberAttributes } from "../parse/gerber-attributes";
 import { parseDrillFile, type ParsedDrillData } from "../parse/drill-parser";
-import { buildPcbGeometry } from "../geometry/stackup-builder";
+import { drillDataFromGerber } from "../parse/gerber-drill";
+import { buildPcbGeometry, isRenderedRole } from "../geometry/stackup-builder";
+import type { BoundsMm } from "../geometry/outline-extractor";
+import { throwIfAborted } from "../utils/error";
+import { jobFileFunction, type GerberJob } from "../io/job-file";
+import { drillFileFunctionPlating } from "../io/content-sniffer";
 
 /**
  * Public entry point used by the rest of the library.
  * Takes a gerbers.zip as File, Blob, or ArrayBuffer and returns a
  * PcbModelGeometry object that can be fed into a 3D viewer.
+ * Anything the parsers skipped is listed in geometry.diagnostics. With
+ * options.strict, the first non-conforming file rejects with a ParseError.
+ * options.onProgress follows the stages, options.signal cancels between
+ * files and layers with an AbortError.
  */
 export async function loadPcbGeometryFromZip(
   input: File | Blob | ArrayBuffer,
   options: LoadFromZipOptions = {}
 ): Promise<PcbModelGeometry> {
+  const { signal } = options;
+
+  throwIfAborted(signal);
+  reportProgress(options, "unzip", 0);
   const zipEntries = await unzipGerbersZip(input);
 
+  throwIfAborted(signal);
+  reportProgress(options, "classify", 0);
   const hints: LayerHints | undefined = options.layerHints;
-  const classified: ClassifiedFiles = classifyFiles(zipEntries, hints);
+  const classified: ClassifiedFiles = await classifyFiles(zipEntries, hints);
+  const job = classified.job?.job;
 
   const parsedGerbers: ParsedGerberLayer[] = [];
   const parsedDrills: ParsedDrillData[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const files = [...classified.gerbers, ...classified.drills];
+  let fileIndex = 0;
+
+  const startFile = (name: string) => {
+    throwIfAborted(signal);
+    reportProgress(options, "parse", fileIndex / files.length, {
+      name,
+      index: ++fileIndex,
+      count: files.length,
+    });
+  };
 
   // Parse Gerber layers
   for (const g of classified.gerbers) {
+    startFile(g.name);
     const text = await g.getText();
-    const primitives = parseGerberFile(g.name, text, g.role);
-    parsedGerbers.push({
-      name: g.name,
-      role: g.role,
-      primitives,
-    });
+    parsedGerbers.push(parseGerberLayer(g.name, g.role, text, job, options, diagnostics));
   }
 
   // Parse drill files
   for (const d of classified.drills) {
+    startFile(d.name);
     const text = await d.getText();
-    const drillData = parseDrillFile(d.name, text);
-    parsedDrills.push(drillData);
+    parsedDrills.push(parseDrillLayer(d.name, d.format, text, job, options, diagnostics));
+  }
+
+  return assemblePcbGeometry(parsedGerbers, parsedDrills, job, options, diagnostics);
+}
+
+/**
+ * Share of LoadProgress.fraction taken by each loading stage.
+ */
+const LOAD_STAGE_RANGES: Record<Exclude<LoadStage, "bake">, [number, number]> = {
+  unzip: [0, 0.05],
+  classify: [0.05, 0.1],
+  parse: [0.1, 0.6],
+  polygonize: [0.6, 1],
+};
+
+/**
+ * Report a loading stage to options.onProgress, stageFraction being how
+ * far into that stage the load is. Also used by the worker bridge.
+ */
+export function reportProgress(
+  options: LoadFromZipOptions,
+  stage: Exclude<LoadStage, "bake">,
+  stageFraction: number,
+  item?: { name: string; index: number; count: number }
+): void {
+  if (!options.onProgress) return;
+  const [from, to] = LOAD_STAGE_RANGES[stage];
+  const progress: LoadProgress = { stage, fraction: from + (to - from) * stageFraction };
+  if (item) {
+    progress.name = item.name;
+    progress.index = item.index;
+    progress.count = item.count;
+  }
+  options.onProgress(progress);
+}
+
+/**
+ * Parse one classified Gerber file, with its copper layer number from X2,
+ * the job file or the file name. Also used by the parser workers.
+ */
+export function parseGerberLayer(
+  name: string,
+  role: LayerRole,
+  text: string,
+  job: GerberJob | undefined,
+  options: LoadFromZipOptions,
+  diagnostics: ParseDiagnostic[]
+): ParsedGerberLayer {
+  const primitives = parseGerberFile(name, text, role, {
+    diagnostics,
+    strict: options.strict,
+  });
+  const fileAttributes = primitives.fileAttributes ?? {};
+  const layer: ParsedGerberLayer = {
+    name,
+    role,
+    primitives,
+    fileAttributes,
+  };
+
+  const fileFunction =
+    fileAttributes[".FileFunction"] ?? (job ? jobFileFunction(job, name) : null);
+  const copperIndex =
+    (fileFunction ? copperIndexOf(fileFunction) : undefined) ??
+    (role === "inner_copper" ? innerCopperIndexFromName(name) : undefined);
+  if (copperIndex !== undefined) layer.copperIndex = copperIndex;
+
+  return layer;
+}
+
+/**
+ * Parse one classified drill file, Excellon or Gerber. Also used by the
+ * parser workers.
+ */
+export function parseDrillLayer(
+  name: string,
+  format: ClassifiedDrillFile["format"],
+  text: string,
+  job: GerberJob | undefined,
+  options: LoadFromZipOptions,
+  diagnostics: ParseDiagnostic[]
+): ParsedDrillData {
+  if (format === "gerber") {
+    const primitives = parseGerberFile(name, text, "unknown", {
+      diagnostics,
+      strict: options.strict,
+    });
+    const fileFunction =
+      primitives.fileAttributes?.[".FileFunction"] ??
+      (job ? jobFileFunction(job, name) : null);
+    const plated = fileFunction ? drillFileFunctionPlating(fileFunction) !== false : true;
+    return drillDataFromGerber(name, primitives, plated);
   }
 
+  return parseDrillFile(name, text, {
+    diagnostics,
+    strict: options.strict,
+  });
+}
+
+/**
+ * Build the model from parsed files, taking board thickness, stackup and
+ * appearance from the options and the job file.
+ */
+export function assemblePcbGeometry(
+  parsedGerbers: ParsedGerberLayer[],
+  parsedDrills: ParsedDrillData[],
+  job: GerberJob | undefined,
+  options: LoadFromZipOptions,
+  diagnostics: ParseDiagnostic[]
+): PcbModelGeometry {
   const geometry = buildPcbGeometry({
     parsedGerbers,
     parsedDrills,
-    boardThicknessMm: options.boardThicknessMm ?? 1.6,
+    // Explicit options win over the job file
+    boardThicknessMm: options.boardThicknessMm ?? job?.boardThicknessMm ?? 1.6,
+    stackup: job ? jobStackup(job) : [],
+    appearance: {
+      soldermaskColor: options.soldermaskColor ?? job?.soldermaskColor,
+      silkscreenColor: options.silkscreenColor ?? job?.silkscreenColor,
+      surfaceFinish: options.surfaceFinish ?? job?.finish,
+    },
+    diagnostics,
+    signal: options.signal,
+    onLayer: (name, index, count) => {
+      // Layers polygonized in workers were reported as their results
+      // arrived, layers that are not rendered are never polygonized
+      const layer = parsedGerbers[index - 1];
+      if (layer.polygons || !isRenderedRole(layer.role)) return;
+      reportProgress(options, "polygonize", (index - 1) / count, { name, index, count });
+    },
   });
-
+  reportProgress(options, "polygonize", 1);
   return geometry;
 }
 
@@ -72,6 +230,51 @@ export async function classifyGerberZip(
   return classifyFiles(zipEntries, hints);
 }
 
+/**
+ * Copper layer number from a .FileFunction such as "Copper,L2,Inr".
+ */
+function copperIndexOf(fileFunction: string[]): number | undefined {
+  if ((fileFunction[0] || "").toLowerCase() !== "copper") return undefined;
+  const m = /^L(\d+)$/i.exec(fileFunction[1] || "");
+  return m ? parseInt(m[1], 10) : undefined;
+}
+
+/**
+ * Copper layer number of an inner layer from its file name: KiCad
+ * "In1_Cu" is layer 2, as is the Protel mid layer extension ".G1".
+ */
+function innerCopperIndexFromName(name: string): number | undefined {
+  const lower = (name.split("/").pop() || name).toLowerCase();
+  const kicad = /(?:^|[^a-z])in(\d+)[._-]?cu/.exec(lower);
+  if (kicad) return parseInt(kicad[1], 10) + 1;
+  const protel = /\.g(\d+)$/.exec(lower);
+  if (protel) return parseInt(protel[1], 10) + 1;
+  return undefined;
+}
+
+/**
+ * Convert the job file material stackup to the model representation.
+ */
+function jobStackup(job: GerberJob): PcbStackupLayer[] {
+  return job.stackup.map((l) => {
+    const t = l.type.toLowerCase();
+    const type: PcbStackupLayer["type"] =
+      t === "copper" ? "copper"
+      : t === "dielectric" ? "dielectric"
+      : t === "soldermask" ? "soldermask"
+      : t === "legend" ? "silkscreen"
+      : t === "solderpaste" ? "paste"
+      : "other";
+    return {
+      type,
+      name: l.name,
+      thicknessMm: l.thicknessMm,
+      material: l.material,
+      color: l.color,
+    };
+  });
+}
+
 /**
  * Parsed Gerber layer representation passed from the parse step into geometry.
  */
@@ -79,6 +282,13 @@ export interface ParsedGerberLayer {
   name: string;
   role: string;
   primitives: GerberPrimitives;
+  fileAttributes: GerberAttributes; // X2 %TF attributes, empty for plain RS-274X
+  copperIndex?: number; // copper layer number from X2 or the job file, 1 = top
+
+  // Set when the layer was polygonized ahead of buildPcbGeometry, e.g. in a
+  // parser worker. primitives may then be reduced to the image polarity.
+  polygons?: Polygon[];
+  bounds?: BoundsMm | null; // extent of the primitives, for the outline fallback
 }
 
 /**
@@ -89,4 +299,9 @@ export interface BuildPcbGeometryParams {
   parsedGerbers: ParsedGerberLayer[];
   parsedDrills: ParsedDrillData[];
   boardThicknessMm: number;
+  stackup?: PcbStackupLayer[];     // passed through to the result
+  appearance?: PcbAppearance;      // passed through to the result
+  diagnostics?: ParseDiagnostic[]; // passed through to the result
+  signal?: AbortSignal;            // checked before each layer
+  onLayer?: (name: string, index: number, count: number) => void; // before each layer
 }
@@ -6,3 +6,10 @@
  */
 export const DEFAULT_BOARD_WIDTH_MM = 100;
 export const DEFAULT_BOARD_HEIGHT_MM = 50;
+
+/**
+ * Distance within which outline segment endpoints are considered the same
+ * point when joining them into loops. CAM output rounds coordinates, so
+ * consecutive segments rarely meet exactly.
+ */
+export const OUTLINE_JOIN_TOLERANCE_MM = 0.02;
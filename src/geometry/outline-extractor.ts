@@ -1,51 +1,313 @@
 // src/geometry/outline-extractor.ts
 
-import type { Polygon } from "../types/pcb-model";
+import type { Polygon, Vec2 } from "../types/pcb-model";
 import type { ParsedGerberLayer } from "../core/pipeline";
+import type { GerberApertureTransform, GerberPrimitives } from "../parse/gerber-parser";
+import { tessellateArc } from "../utils/math";
+import { OUTLINE_JOIN_TOLERANCE_MM } from "./constants";
 
 /**
- * Try to derive the board outline from parsed Gerber layers by
- * computing the bounding box of all primitives.
+ * Build the board shape from the drawn outline.
+ *
+ * Tracks and arcs of the outline layers (the mechanical layers when there
+ * is no outline layer) are joined end to end into closed loops, allowing
+ * for small gaps between endpoints. The loop enclosing the largest area is
+ * the board edge, loops inside it are cutouts. Loops outside the board,
+ * such as dimension drawings, and open chains are ignored.
+ *
+ * The outer boundary is clockwise and holes counter clockwise, as in the
+ * polygonizer output. Returns null when no closed loop is found, the
+ * caller then falls back to deriveOutlineFromLayers.
+ */
+export function extractBoardOutline(
+  layers: ParsedGerberLayer[],
+  tolerance = OUTLINE_JOIN_TOLERANCE_MM
+): Polygon | null {
+  for (const role of ["outline", "mechanical"]) {
+    const pieces: Vec2[][] = [];
+    for (const layer of layers) {
+      if (layer.role === role) collectOutlinePieces(layer.primitives, (p) => p, pieces);
+    }
+
+    const loops = joinIntoLoops(pieces, tolerance);
+    const outline = loopsToPolygon(loops, tolerance);
+    if (outline) return outline;
+  }
+
+  return null;
+}
+
+/**
+ * Polylines drawn on an outline layer: one per track, arcs tessellated,
+ * and the boundary of any region closed back to its start.
+ */
+function collectOutlinePieces(
+  prims: GerberPrimitives,
+  place: (p: Vec2) => Vec2,
+  out: Vec2[][]
+) {
+  for (const t of prims.tracks) {
+    out.push([place(t.start), place(t.end)]);
+  }
+
+  for (const a of prims.arcs) {
+    out.push(tessellateArc(a.start, a.end, a.center, a.clockwise).map(place));
+  }
+
+  for (const r of prims.regions) {
+    if (r.boundary.length < 3) continue;
+    out.push(r.boundary.concat([r.boundary[0]]).map(place));
+  }
+
+  for (const b of prims.blocks) {
+    for (const off of b.offsets) {
+      collectOutlinePieces(
+        b.primitives,
+        (p) => {
+          const q = applyTransform(p, b.transform);
+          return place({ x: q.x + off.x, y: q.y + off.y });
+        },
+        out
+      );
+    }
+  }
+}
+
+function applyTransform(p: Vec2, m?: GerberApertureTransform): Vec2 {
+  if (!m) return p;
+  return { x: m.a * p.x + m.b * p.y, y: m.c * p.x + m.d * p.y };
+}
+
+/**
+ * Chain polylines whose endpoints meet within tolerance. Returns the closed
+ * loops, without the repeated closing point.
+ */
+function joinIntoLoops(pieces: Vec2[][], tolerance: number): Vec2[][] {
+  const loops: Vec2[][] = [];
+  const used: boolean[] = pieces.map(() => false);
+
+  // Endpoints bucketed on a grid of tolerance sized cells
+  const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+  const buckets = new Map<string, number[]>();
+  pieces.forEach((piece, i) => {
+    for (const p of [piece[0], piece[piece.length - 1]]) {
+      const key = cellKey(Math.floor(p.x / tolerance), Math.floor(p.y / tolerance));
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+
+  const near = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y) <= tolerance;
+
+  // Unused piece with an endpoint at p, oriented to start there
+  const takeAt = (p: Vec2): Vec2[] | null => {
+    const cx = Math.floor(p.x / tolerance);
+    const cy = Math.floor(p.y / tolerance);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const i of buckets.get(cellKey(cx + dx, cy + dy)) || []) {
+          if (used[i]) continue;
+          const piece = pieces[i];
+          if (near(piece[0], p)) {
+            used[i] = true;
+            return piece;
+          }
+          if (near(piece[piece.length - 1], p)) {
+            used[i] = true;
+            return piece.slice().reverse();
+          }
+        }
+      }
+    }
+    return null;
+  };
+
+  const isClosed = (chain: Vec2[]) =>
+    chain.length >= 4 && near(chain[0], chain[chain.length - 1]);
+
+  for (let i = 0; i < pieces.length; i++) {
+    if (used[i] || pieces[i].length < 2) continue;
+    used[i] = true;
+
+    let chain = pieces[i].slice();
+    let reversed = false;
+
+    while (!isClosed(chain)) {
+      const next = takeAt(chain[chain.length - 1]);
+      if (next) {
+        for (let k = 1; k < next.length; k++) chain.push(next[k]);
+        continue;
+      }
+      // Dead end: try growing from the other end once
+      if (reversed) break;
+      chain = chain.reverse();
+      reversed = true;
+    }
+
+    if (isClosed(chain)) {
+      chain.pop();
+      loops.push(chain);
+    }
+  }
+
+  return loops;
+}
+
+/**
+ * Pick the board edge and its cutouts among closed loops.
+ */
+function loopsToPolygon(loops: Vec2[][], tolerance: number): Polygon | null {
+  const candidates = loops
+    .map((points) => ({ points, area: signedArea(points) }))
+    .filter((l) => Math.abs(l.area) > tolerance * tolerance)
+    .sort((a, b) => Math.abs(b.area) - Math.abs(a.area));
+
+  if (candidates.length === 0) return null;
+
+  const outer = candidates[0];
+  const holes: Vec2[][] = [];
+
+  for (const loop of candidates.slice(1)) {
+    const probe = loop.points[0];
+    if (!pointInRing(probe, outer.points)) continue;
+    // Loops inside a cutout are islands we cannot represent, skip them
+    if (holes.some((h) => pointInRing(probe, h))) continue;
+    holes.push(loop.area > 0 ? loop.points : loop.points.slice().reverse());
+  }
+
+  return {
+    outer: outer.area < 0 ? outer.points : outer.points.slice().reverse(),
+    holes,
+  };
+}
+
+/**
+ * Shoelace area, positive for counter clockwise rings.
+ */
+function signedArea(points: Vec2[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    sum += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return sum / 2;
+}
+
+function pointInRing(p: Vec2, ring: Vec2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (a.y > p.y !== b.y > p.y) {
+      const x = a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (p.x < x) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Axis aligned extent of primitives, in mm.
+ */
+export interface BoundsMm {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Fallback when no outline can be extracted: the bounding box of all
+ * primitives on all layers. Layers polygonized ahead of time bring their
+ * bounds instead of primitives.
  */
 export function deriveOutlineFromLayers(
   layers: ParsedGerberLayer[]
 ): Polygon | null {
+  let total: BoundsMm | null = null;
+
+  for (const layer of layers) {
+    const b = layer.bounds !== undefined ? layer.bounds : primitivesBounds(layer.primitives);
+    if (!b) continue;
+    total = total
+      ? {
+          minX: Math.min(total.minX, b.minX),
+          minY: Math.min(total.minY, b.minY),
+          maxX: Math.max(total.maxX, b.maxX),
+          maxY: Math.max(total.maxY, b.maxY),
+        }
+      : b;
+  }
+
+  if (!total) return null;
+  const { minX, minY, maxX, maxY } = total;
+
+  // Simple rectangular outline from bounding box
+  return {
+    outer: [
+      { x: minX, y: minY },
+      { x: maxX, y: minY },
+      { x: maxX, y: maxY },
+      { x: minX, y: maxY },
+    ],
+    holes: [],
+  };
+}
+
+/**
+ * Bounding box of all primitives, block copies included, or null when
+ * there are none.
+ */
+export function primitivesBounds(prims: GerberPrimitives): BoundsMm | null {
   let minX = Infinity;
   let maxX = -Infinity;
   let minY = Infinity;
   let maxY = -Infinity;
   let hasAny = false;
 
-  for (const layer of layers) {
-    const p = layer.primitives;
+  visitPrimitives(prims, (p) => p);
+
+  function visitPrimitives(p: GerberPrimitives, place: (p: Vec2) => Vec2) {
+    const update = (pt: Vec2) => {
+      const q = place(pt);
+      updateBounds(q.x, q.y);
+    };
 
     // Tracks
     for (const t of p.tracks) {
-      updateBounds(t.start.x, t.start.y);
-      updateBounds(t.end.x, t.end.y);
+      update(t.start);
+      update(t.end);
     }
 
     // Arcs
     for (const a of p.arcs) {
-      updateBounds(a.start.x, a.start.y);
-      updateBounds(a.end.x, a.end.y);
-      updateBounds(a.center.x, a.center.y);
+      update(a.start);
+      update(a.end);
+      update(a.center);
     }
 
     // Flashes
     for (const f of p.flashes) {
-      updateBounds(f.position.x, f.position.y);
+      update(f.position);
     }
 
     // Regions
     for (const r of p.regions) {
-      for (const pt of r.boundary) {
-        updateBounds(pt.x, pt.y);
-      }
+      for (const pt of r.boundary) update(pt);
       for (const hole of r.holes) {
-        for (const pt of hole) {
-          updateBounds(pt.x, pt.y);
-        }
+        for (const pt of hole) update(pt);
+      }
+    }
+
+    // Step and repeat / block apertures, every placed copy, placed the way
+    // the polygonizer does: block transform first, then the offset
+    for (const b of p.blocks) {
+      for (const off of b.offsets) {
+        visitPrimitives(b.primitives, (pt) => {
+          const q = applyTransform(pt, b.transform);
+          return place({ x: q.x + off.x, y: q.y + off.y });
+        });
       }
     }
   }
@@ -61,17 +323,7 @@ export function deriveOutlineFromLayers(
   if (!hasAny || !isFinite(minX) || !isFinite(minY) || !isFinite(maxX) || !isFinite(maxY)) {
     return null;
   }
-
-  // Simple rectangular outline from bounding box
-  return {
-    outer: [
-      { x: minX, y: minY },
-      { x: maxX, y: minY },
-      { x: maxX, y: maxY },
-      { x: minX, y: maxY },
-    ],
-    holes: [],
-  };
+  return { minX, minY, maxX, maxY };
 }
 
 /**
@@ -5,7 +5,13 @@ import type {
   GerberPrimitiveArc,
   GerberPrimitiveFlash,
   GerberPrimitiveRegion,
+  GerberPrimitiveBase,
+  GerberPolarity,
+  GerberTrackAperture,
+  GerberApertureTransform,
 } from "../parse/gerber-parser";
+import type { MacroPrimitive } from "../parse/aperture-macro";
+import { arcSweepAngle, tessellateArc, ARC_SEGMENTS_PER_CIRCLE } from "../utils/math";
 
 // NEW: boolean library types
 import polygonClipping, { MultiPolygon as PcLibMultiPolygon } from "polygon-clipping";
@@ -31,51 +37,93 @@ function snapCoord(v: number): number {
 // Public API
 // -----------------------------------------------------------------------------
 
+/**
+ * Polygonize every primitive, regardless of polarity.
+ * Clear polarity objects are returned like dark ones, use
+ * polygonizePrimitivesUnion for the image as it will be fabricated.
+ */
 export function polygonizePrimitives(prims: GerberPrimitives): Polygon[] {
   const polygons: Polygon[] = [];
+  for (const run of polygonizeByPolarityRun(prims)) {
+    for (const poly of run.polygons) polygons.push(poly);
+  }
+  return polygons;
+}
+
+interface PolarityRun {
+  index: number;
+  polarity: GerberPolarity;
+  polygons: Polygon[];
+}
+
+/**
+ * Polygonize primitives into buckets, one per polarity run, sorted in the
+ * order the runs appear in the file.
+ */
+function polygonizeByPolarityRun(
+  prims: GerberPrimitives,
+  blockCache: Map<GerberPrimitives, PolarityRun[]> = new Map(),
+  macroCache: Map<MacroPrimitive[], Polygon[]> = new Map()
+): PolarityRun[] {
+  const runs = new Map<number, PolarityRun>();
+
+  const emitAt = (index: number, polarity: GerberPolarity, poly: Polygon) => {
+    let run = runs.get(index);
+    if (!run) {
+      run = { index, polarity, polygons: [] };
+      runs.set(index, run);
+    }
+    run.polygons.push(poly);
+  };
+
+  const emit = (prim: GerberPrimitiveBase, poly: Polygon) => {
+    emitAt(prim.polarityRun, prim.polarity, poly);
+  };
 
   // 1) Tracks -> polylines -> stroked polygons
   if (prims.tracks && prims.tracks.length) {
     for (const t of prims.tracks) {
+      if (t.aperture) {
+        // R / O / P aperture: sweep the real outline along the segment
+        const shape = trackApertureShape(t.aperture, t.transform);
+        const poly = sweepConvexAperture(shape, t.start, t.end);
+        if (poly) emit(t, poly);
+        continue;
+      }
+
       const width = t.width || DEFAULT_TRACE_WIDTH_MM;
       // Stroke just this segment: [start, end]
       const poly = strokePolyline([t.start, t.end], width);
-      if (poly) polygons.push(poly);
+      if (poly) emit(t, poly);
     }
   }
 
-  // 2) Arcs (currently ignored - parser does not emit arcs yet)
-  // If you start filling prims.arcs, you can approximate each arc by a
-  // centerline polyline and call strokePolyline on it as well.
+  // 2) Arcs -> tessellated centerline -> stroked polygons
+  if (prims.arcs && prims.arcs.length) {
+    for (const a of prims.arcs) {
+      for (const poly of strokeArc(a)) emit(a, poly);
+    }
+  }
 
   // 3) Flashes -> pads by shape
   if (prims.flashes && prims.flashes.length) {
     for (const flash of prims.flashes) {
       const shape = flash.shape;
 
-      if ((shape === "R" || shape === "O") &&
-          flash.widthMm !== undefined &&
-          flash.heightMm !== undefined) {
-        // Rectangular / oblong pad - render as rectangle for now
-        const rect = approximateRectangle(
-          flash.position,
-          flash.widthMm,
-          flash.heightMm
-        );
-        polygons.push(rect);
+      if (shape === "macro" && flash.macro) {
+        // Aperture macro: exact shape built around the origin, once per
+        // aperture since flashes of one %AD share its evaluated body
+        let local = macroCache.get(flash.macro);
+        if (!local) {
+          local = macroToPolygons(flash.macro);
+          macroCache.set(flash.macro, local);
+        }
+        for (const poly of local) {
+          emit(flash, translatePolygon(transformPolygon(poly, flash.transform), flash.position));
+        }
       } else {
-        // Default: circular pad
-        const d =
-          flash.diameterMm && flash.diameterMm > 0
-            ? flash.diameterMm
-            : DEFAULT_FLASH_DIAM_MM;
-
-        const circle = approximateCircle(
-          flash.position,
-          d / 2,
-          DEFAULT_CIRCLE_SEGMENTS
-        );
-        polygons.push(circle);
+        const local = transformPolygon(standardFlashShape(flash), flash.transform);
+        emit(flash, translatePolygon(local, flash.position));
       }
     }
   }
@@ -92,20 +140,79 @@ export function polygonizePrimitives(prims: GerberPrimitives): Polygon[] {
         ensureCounterClockwise(h.slice())
       );
 
-      polygons.push({ outer, holes });
+      emit(region, { outer, holes });
     }
   }
 
-  return polygons;
+  // 5) Blocks (%SR / %AB) -> content polygonized once, copied per offset
+  if (prims.blocks && prims.blocks.length) {
+    for (const block of prims.blocks) {
+      let content = blockCache.get(block.primitives);
+      if (!content) {
+        content = polygonizeByPolarityRun(block.primitives, blockCache, macroCache);
+        blockCache.set(block.primitives, content);
+      }
+
+      for (const run of content) {
+        const polarity: GerberPolarity =
+          block.polarity === "clear"
+            ? run.polarity === "clear" ? "dark" : "clear"
+            : run.polarity;
+        const index = block.polarityRun + run.index;
+
+        const polys = block.transform
+          ? run.polygons.map((poly) => transformPolygon(poly, block.transform))
+          : run.polygons;
+
+        for (const offset of block.offsets) {
+          for (const poly of polys) {
+            emitAt(index, polarity, translatePolygon(poly, offset));
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(runs.values()).sort((a, b) => a.index - b.index);
 }
 
 // -----------------------------------------------------------------------------
 // Public API - unioned polygons for rendering
 // -----------------------------------------------------------------------------
 
+/**
+ * Polygonize and merge a layer the way it will be fabricated: dark runs
+ * are unioned into the image, clear runs are subtracted from everything
+ * drawn before them.
+ */
 export function polygonizePrimitivesUnion(prims: GerberPrimitives): Polygon[] {
-  const raw = polygonizePrimitives(prims);
-  return unionPolygons(raw);
+  const runs = polygonizeByPolarityRun(prims);
+
+  // Common case, no clear objects at all
+  if (runs.every((r) => r.polarity === "dark")) {
+    const raw: Polygon[] = [];
+    for (const run of runs) {
+      for (const poly of run.polygons) raw.push(poly);
+    }
+    return unionPolygons(raw);
+  }
+
+  let acc: PcLibMultiPolygon = [];
+
+  for (const run of runs) {
+    const mp = polygonsToMulti(run.polygons);
+    if (!mp.length) continue;
+
+    if (run.polarity === "dark") {
+      acc = acc.length
+        ? polygonClipping.union(acc, mp)
+        : polygonClipping.union(mp);
+    } else if (acc.length) {
+      acc = polygonClipping.difference(acc, mp);
+    }
+  }
+
+  return fromPcMulti(acc);
 }
 
 // -----------------------------------------------------------------------------
@@ -619,6 +726,72 @@ function strokePolyline(points: Vec2[], width: number): Polygon | null {
   return { outer: ensureClockwise(dedupePoints(finalOuter)), holes: [] };
 }
 
+// -----------------------------------------------------------------------------
+// Stroke an arc
+// -----------------------------------------------------------------------------
+
+function strokeArc(arc: GerberPrimitiveArc): Polygon[] {
+  if (arc.aperture) {
+    // R / O / P aperture: sweep the outline chord by chord, the union
+    // merges the pieces
+    const shape = trackApertureShape(arc.aperture, arc.transform);
+    const points = dedupePoints(
+      tessellateArc(arc.start, arc.end, arc.center, arc.clockwise)
+    );
+    const out: Polygon[] = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+      const poly = sweepConvexAperture(shape, points[i], points[i + 1]);
+      if (poly) out.push(poly);
+    }
+    return out;
+  }
+
+  const width = arc.width || DEFAULT_TRACE_WIDTH_MM;
+  const half = width / 2;
+  const radius = Math.hypot(
+    arc.start.x - arc.center.x,
+    arc.start.y - arc.center.y
+  );
+  const sweep = arcSweepAngle(arc.start, arc.end, arc.center, arc.clockwise);
+
+  // Full circle: the stroke is an annulus (or a disk when the aperture is
+  // wider than the circle), a single outline would self overlap.
+  if (sweep >= Math.PI * 2 - 1e-9) {
+    const outer = approximateCircle(
+      arc.center,
+      radius + half,
+      ARC_SEGMENTS_PER_CIRCLE
+    );
+    if (radius - half > 1e-6) {
+      const inner = approximateCircle(
+        arc.center,
+        radius - half,
+        ARC_SEGMENTS_PER_CIRCLE
+      );
+      outer.holes.push(ensureCounterClockwise(inner.outer));
+    }
+    return [outer];
+  }
+
+  const points = dedupePoints(
+    tessellateArc(arc.start, arc.end, arc.center, arc.clockwise)
+  );
+
+  // Inner offset stays simple while the aperture fits inside the radius
+  if (half < radius && points.length >= 2) {
+    const poly = strokePolyline(points, width);
+    return poly ? [poly] : [];
+  }
+
+  // Otherwise stroke chord by chord and let the union merge them
+  const out: Polygon[] = [];
+  for (let i = 0; i + 1 < points.length; i++) {
+    const poly = strokePolyline([points[i], points[i + 1]], width);
+    if (poly) out.push(poly);
+  }
+  return out;
+}
+
 // -----------------------------------------------------------------------------
 // Circle / pad approximation
 // -----------------------------------------------------------------------------
@@ -640,6 +813,295 @@ function approximateCircle(
   return { outer, holes: [] };
 }
 
+// -----------------------------------------------------------------------------
+// Standard apertures
+// -----------------------------------------------------------------------------
+
+/**
+ * Outline of a C / R / O / P flash around the aperture origin, with the
+ * optional round hole cut out.
+ */
+function standardFlashShape(flash: GerberPrimitiveFlash): Polygon {
+  const origin = { x: 0, y: 0 };
+  let poly: Polygon;
+
+  if ((flash.shape === "R" || flash.shape === "O") &&
+      flash.widthMm !== undefined &&
+      flash.heightMm !== undefined) {
+    poly = flash.shape === "R"
+      ? approximateRectangle(origin, flash.widthMm, flash.heightMm)
+      : approximateObround(origin, flash.widthMm, flash.heightMm);
+  } else if (flash.shape === "P" && flash.diameterMm > 0) {
+    poly = approximateRegularPolygon(
+      origin,
+      flash.diameterMm,
+      flash.vertices ?? 3,
+      flash.rotationDeg ?? 0
+    );
+  } else {
+    // Default: circular pad
+    const d =
+      flash.diameterMm && flash.diameterMm > 0
+        ? flash.diameterMm
+        : DEFAULT_FLASH_DIAM_MM;
+    poly = approximateCircle(origin, d / 2, DEFAULT_CIRCLE_SEGMENTS);
+  }
+
+  if (flash.holeDiameterMm && flash.holeDiameterMm > 0) {
+    const hole = approximateCircle(
+      origin,
+      flash.holeDiameterMm / 2,
+      DEFAULT_CIRCLE_SEGMENTS
+    );
+    poly.holes.push(ensureCounterClockwise(hole.outer));
+  }
+
+  return poly;
+}
+
+/**
+ * Outline of the aperture a track or arc was drawn with, around the
+ * origin, with its aperture transform applied.
+ */
+function trackApertureShape(
+  ap: GerberTrackAperture,
+  transform?: GerberApertureTransform
+): Vec2[] {
+  const origin = { x: 0, y: 0 };
+  let shape: Vec2[];
+
+  if (ap.shape === "P") {
+    shape = approximateRegularPolygon(
+      origin,
+      ap.diameterMm ?? DEFAULT_TRACE_WIDTH_MM,
+      ap.vertices ?? 3,
+      ap.rotationDeg ?? 0
+    ).outer;
+  } else {
+    const w = ap.widthMm ?? DEFAULT_TRACE_WIDTH_MM;
+    const h = ap.heightMm ?? w;
+    shape = ap.shape === "R"
+      ? approximateRectangle(origin, w, h).outer
+      : approximateObround(origin, w, h).outer;
+  }
+
+  return transform ? shape.map((p) => transformPoint(p, transform)) : shape;
+}
+
+/**
+ * Area swept by a convex aperture moving from start to end. For a convex
+ * shape this is exactly the convex hull of the shape at both endpoints.
+ */
+function sweepConvexAperture(
+  shape: Vec2[],
+  start: Vec2,
+  end: Vec2
+): Polygon | null {
+  const pts: Vec2[] = [];
+  for (const p of shape) {
+    pts.push(add(p, start));
+    pts.push(add(p, end));
+  }
+
+  const hull = convexHull(pts);
+  if (hull.length < 3) return null;
+  return { outer: ensureClockwise(hull), holes: [] };
+}
+
+/**
+ * Andrew's monotone chain convex hull, counterclockwise, no duplicate
+ * closing point.
+ */
+function convexHull(points: Vec2[]): Vec2[] {
+  if (points.length < 3) return points.slice();
+
+  const pts = points.slice().sort((a, b) => (a.x === b.x ? a.y - b.y : a.x - b.x));
+  const cross = (o: Vec2, a: Vec2, b: Vec2): number =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Vec2[] = [];
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+
+  const upper: Vec2[] = [];
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+// -----------------------------------------------------------------------------
+// Aperture macros
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the exact outline of an evaluated aperture macro, around the
+ * aperture origin. Primitives are applied in order: exposure on adds to
+ * the shape, exposure off cuts away what was built so far.
+ */
+function macroToPolygons(prims: MacroPrimitive[]): Polygon[] {
+  let acc: PcLibMultiPolygon = [];
+
+  for (const prim of prims) {
+    const shape = polygonsToMulti(macroPrimitiveShape(prim));
+    if (!shape.length) continue;
+
+    const exposed =
+      prim.kind === "moire" || prim.kind === "thermal" ? true : prim.exposure;
+
+    if (exposed) {
+      acc = acc.length
+        ? polygonClipping.union(acc, shape)
+        : polygonClipping.union(shape);
+    } else if (acc.length) {
+      acc = polygonClipping.difference(acc, shape);
+    }
+  }
+
+  return fromPcMulti(acc);
+}
+
+/**
+ * Outline of a single macro primitive, rotated around the aperture origin.
+ */
+function macroPrimitiveShape(prim: MacroPrimitive): Polygon[] {
+  const angle = (prim.rotation * Math.PI) / 180;
+  const rotated = (polys: Polygon[]): Polygon[] =>
+    angle === 0 ? polys : polys.map((p) => rotatePolygon(p, angle));
+
+  switch (prim.kind) {
+    case "circle": {
+      if (prim.diameter <= 0) return [];
+      return rotated([
+        approximateCircle(prim.center, prim.diameter / 2, DEFAULT_CIRCLE_SEGMENTS),
+      ]);
+    }
+
+    case "vectorLine": {
+      const dx = prim.end.x - prim.start.x;
+      const dy = prim.end.y - prim.start.y;
+      const len = Math.hypot(dx, dy);
+      if (len < 1e-9 || prim.width <= 0) return [];
+
+      // Butt ends: the line is exactly a rectangle along the vector
+      const n = scale({ x: -dy / len, y: dx / len }, prim.width / 2);
+      const outer = [
+        add(prim.start, scale(n, -1)),
+        add(prim.end, scale(n, -1)),
+        add(prim.end, n),
+        add(prim.start, n),
+      ];
+      return rotated([{ outer: ensureClockwise(outer), holes: [] }]);
+    }
+
+    case "centerLine": {
+      if (prim.width <= 0 || prim.height <= 0) return [];
+      return rotated([
+        approximateRectangle(prim.center, prim.width, prim.height),
+      ]);
+    }
+
+    case "outline": {
+      const pts = prim.points.slice();
+      if (pts.length > 1 && isSamePoint(pts[0], pts[pts.length - 1])) {
+        pts.pop();
+      }
+      if (pts.length < 3) return [];
+      return rotated([{ outer: ensureClockwise(pts), holes: [] }]);
+    }
+
+    case "polygon": {
+      if (prim.diameter <= 0) return [];
+      // First vertex on the positive X axis of the primitive, before rotation
+      return rotated([
+        approximateCircle(prim.center, prim.diameter / 2, prim.vertices),
+      ]);
+    }
+
+    case "moire": {
+      const parts: Polygon[] = [];
+      let outerD = prim.outerDiameter;
+
+      for (let i = 0; i < prim.maxRings && outerD > 0; i++) {
+        const innerD = outerD - 2 * prim.ringThickness;
+        const ring = approximateCircle(
+          prim.center,
+          outerD / 2,
+          DEFAULT_CIRCLE_SEGMENTS
+        );
+        if (innerD > 0) {
+          ring.holes.push(
+            ensureCounterClockwise(
+              approximateCircle(prim.center, innerD / 2, DEFAULT_CIRCLE_SEGMENTS)
+                .outer
+            )
+          );
+        }
+        parts.push(ring);
+        outerD = innerD - 2 * prim.gap;
+      }
+
+      if (prim.crosshairThickness > 0 && prim.crosshairLength > 0) {
+        parts.push(
+          approximateRectangle(
+            prim.center,
+            prim.crosshairLength,
+            prim.crosshairThickness
+          ),
+          approximateRectangle(
+            prim.center,
+            prim.crosshairThickness,
+            prim.crosshairLength
+          )
+        );
+      }
+
+      return rotated(parts);
+    }
+
+    case "thermal": {
+      if (prim.outerDiameter <= 0) return [];
+
+      const ring = approximateCircle(
+        prim.center,
+        prim.outerDiameter / 2,
+        DEFAULT_CIRCLE_SEGMENTS
+      );
+      if (prim.innerDiameter > 0) {
+        ring.holes.push(
+          ensureCounterClockwise(
+            approximateCircle(
+              prim.center,
+              prim.innerDiameter / 2,
+              DEFAULT_CIRCLE_SEGMENTS
+            ).outer
+          )
+        );
+      }
+
+      if (prim.gap <= 0) return rotated([ring]);
+
+      const span = prim.outerDiameter * 1.1;
+      const cross = [
+        approximateRectangle(prim.center, span, prim.gap),
+        approximateRectangle(prim.center, prim.gap, span),
+      ];
+      return rotated(subtractPolygons([ring], cross));
+    }
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Winding helpers
 // -----------------------------------------------------------------------------
@@ -680,8 +1142,7 @@ function scale(v: Vec2, s: number): Vec2 {
   return { x: v.x * s, y: v.y * s };
 }
 
-// Rotates vector d by angle (in radians) (currently unused but good helper)
-/*
+// Rotates vector d by angle (in radians) around the origin
 function rotate(d: Vec2, angle: number): Vec2 {
   const cos = Math.cos(angle);
   const sin = Math.sin(angle);
@@ -690,7 +1151,102 @@ function rotate(d: Vec2, angle: number): Vec2 {
     y: d.x * sin + d.y * cos,
   };
 }
-*/
+
+function rotatePolygon(poly: Polygon, angle: number): Polygon {
+  return {
+    outer: poly.outer.map((p) => rotate(p, angle)),
+    holes: poly.holes.map((h) => h.map((p) => rotate(p, angle))),
+  };
+}
+
+function transformPoint(p: Vec2, m: GerberApertureTransform): Vec2 {
+  return { x: m.a * p.x + m.b * p.y, y: m.c * p.x + m.d * p.y };
+}
+
+// Applies an aperture transform (%LM / %LR / %LS) around the origin
+function transformPolygon(poly: Polygon, m?: GerberApertureTransform): Polygon {
+  if (!m) return poly;
+  return {
+    outer: poly.outer.map((p) => transformPoint(p, m)),
+    holes: poly.holes.map((h) => h.map((p) => transformPoint(p, m))),
+  };
+}
+
+function translatePolygon(poly: Polygon, offset: Vec2): Polygon {
+  return {
+    outer: poly.outer.map((p) => add(p, offset)),
+    holes: poly.holes.map((h) => h.map((p) => add(p, offset))),
+  };
+}
+
+/**
+ * Stadium shape: a rectangle with semicircular ends on the short side.
+ */
+function approximateObround(
+  center: Vec2,
+  widthMm: number,
+  heightMm: number
+): Polygon {
+  if (Math.abs(widthMm - heightMm) < 1e-9) {
+    return approximateCircle(center, widthMm / 2, DEFAULT_CIRCLE_SEGMENTS);
+  }
+
+  const horizontal = widthMm > heightMm;
+  const r = (horizontal ? heightMm : widthMm) / 2;
+  const offset = (horizontal ? widthMm : heightMm) / 2 - r;
+  const half = DEFAULT_CIRCLE_SEGMENTS / 2;
+
+  // Two semicircle end caps, counterclockwise, starting at the cap
+  // pointing along +X (horizontal) or +Y (vertical)
+  const caps: { c: Vec2; from: number }[] = horizontal
+    ? [
+        { c: { x: center.x + offset, y: center.y }, from: -Math.PI / 2 },
+        { c: { x: center.x - offset, y: center.y }, from: Math.PI / 2 },
+      ]
+    : [
+        { c: { x: center.x, y: center.y + offset }, from: 0 },
+        { c: { x: center.x, y: center.y - offset }, from: Math.PI },
+      ];
+
+  const outer: Vec2[] = [];
+  for (const cap of caps) {
+    for (let i = 0; i <= half; i++) {
+      const theta = cap.from + (i / half) * Math.PI;
+      outer.push({
+        x: cap.c.x + Math.cos(theta) * r,
+        y: cap.c.y + Math.sin(theta) * r,
+      });
+    }
+  }
+
+  return { outer: ensureClockwise(outer), holes: [] };
+}
+
+/**
+ * Regular polygon aperture (P): the first vertex sits on the positive X axis,
+ * rotated counterclockwise by rotationDeg.
+ */
+function approximateRegularPolygon(
+  center: Vec2,
+  diameterMm: number,
+  vertices: number,
+  rotationDeg: number
+): Polygon {
+  const n = Math.max(3, Math.round(vertices));
+  const r = diameterMm / 2;
+  const start = (rotationDeg * Math.PI) / 180;
+
+  const outer: Vec2[] = [];
+  for (let i = 0; i < n; i++) {
+    const theta = start + (i / n) * Math.PI * 2;
+    outer.push({
+      x: center.x + Math.cos(theta) * r,
+      y: center.y + Math.sin(theta) * r,
+    });
+  }
+
+  return { outer: ensureClockwise(outer), holes: [] };
+}
 
 function approximateRectangle(
   center: Vec2,
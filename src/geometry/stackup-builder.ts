@@ -4,13 +4,17 @@ import type {
   PcbModelGeometry,
   LayerGeometry,
   DrillHole,
+  DrillSlot,
   PcbSide,
   PcbLayerKind,
   Polygon,
 } from "../types/pcb-model";
-import type { BuildPcbGeometryParams, ParsedGerberLayer } from "../core/pipeline";
+import type { BuildPcbGeometryParams } from "../core/pipeline";
+import type { GerberPrimitives } from "../parse/gerber-parser";
 
+import { throwIfAborted } from "../utils/error";
 import {
+  extractBoardOutline,
   deriveOutlineFromLayers,
   createRectanglePolygon,
 } from "./outline-extractor";
@@ -18,7 +22,7 @@ import {
   DEFAULT_BOARD_WIDTH_MM,
   DEFAULT_BOARD_HEIGHT_MM,
 } from "./constants";
-import { polygonizePrimitivesUnion } from "./polygonizer";
+import { polygonizePrimitivesUnion, subtractPolygons } from "./polygonizer";
 // import { unionPolygons } from "./boolean-ops";
 
 
@@ -26,9 +30,20 @@ import { polygonizePrimitivesUnion } from "./polygonizer";
  * Build the high level PcbModelGeometry from parsed Gerber and drill data.
  */
 export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeometry {
-  const { parsedGerbers, parsedDrills, boardThicknessMm } = params;
-
-  let outlinePoly = deriveOutlineFromLayers(parsedGerbers);
+  const {
+    parsedGerbers,
+    parsedDrills,
+    boardThicknessMm,
+    stackup = [],
+    appearance = {},
+    diagnostics = [],
+    signal,
+    onLayer,
+  } = params;
+
+  // Drawn outline first, the bounding box of everything as a fallback
+  let outlinePoly =
+    extractBoardOutline(parsedGerbers) ?? deriveOutlineFromLayers(parsedGerbers);
 
   let widthMm: number;
   let heightMm: number;
@@ -48,17 +63,23 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
   const copperLayers: LayerGeometry[] = [];
   const maskLayers: LayerGeometry[] = [];
   const silkLayers: LayerGeometry[] = [];
+  const pasteLayers: LayerGeometry[] = [];
 
-  for (const layer of parsedGerbers) {
-    const lk = roleToSideAndKind(layer);
-    if (!lk.kind || !lk.side) continue;
+  for (let i = 0; i < parsedGerbers.length; i++) {
+    const layer = parsedGerbers[i];
+    throwIfAborted(signal);
+    onLayer?.(layer.name, i + 1, parsedGerbers.length);
 
-    // 1) polygonize
-    let polys = polygonizePrimitivesUnion(layer.primitives);
+    if (!isRenderedRole(layer.role)) continue;
+    const lk = roleToSideAndKind(layer.role);
+    if (!lk.kind) continue;
 
-    // 2) drop junk
-    if (polys) {
-      polys = polys.filter(p => p.outer && p.outer.length >= 3);
+    // 1) polygonize, unless done already, and drop junk
+    let polys = layer.polygons ?? polygonizeLayer(layer.primitives);
+
+    // Negative image (%IPNEG): the objects are where material is removed
+    if (layer.primitives.imagePolarity === "negative") {
+      polys = subtractPolygons([boardRectPoly], polys);
     }
 
     // // 3) union for copper so rectangles + circles become single islands
@@ -71,8 +92,10 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
       polys = polys.filter(p => p.outer && p.outer.length >= 3);
     }
 
-    // 4) fallback
-    if (!polys || polys.length === 0) {
+    // 4) fallback, outer copper only. Empty mask, paste and legend layers
+    // are valid: no openings, no deposits, nothing printed. An empty inner
+    // layer stays empty rather than showing up as a solid plane.
+    if ((!polys || polys.length === 0) && lk.kind === "copper" && lk.side) {
       polys = [boardRectPoly];
     }
 
@@ -84,11 +107,14 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
     };
 
     if (lk.kind === "copper") {
+      if (layer.copperIndex !== undefined) layerGeom.copperIndex = layer.copperIndex;
       copperLayers.push(layerGeom);
     } else if (lk.kind === "soldermask") {
       maskLayers.push(layerGeom);
     } else if (lk.kind === "silkscreen") {
       silkLayers.push(layerGeom);
+    } else if (lk.kind === "paste") {
+      pasteLayers.push(layerGeom);
     }
   }
 
@@ -110,6 +136,10 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
     });
   }
 
+  // Top to bottom: layers with a known copper index in order, the top
+  // layer first and the bottom layer last otherwise
+  copperLayers.sort((a, b) => copperSortKey(a) - copperSortKey(b));
+
   const outlineLayer: LayerGeometry = {
     name: "outline",
     side: null,
@@ -118,6 +148,7 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
   };
 
   const drills: DrillHole[] = flattenDrills(parsedDrills);
+  const slots: DrillSlot[] = flattenSlots(parsedDrills);
 
   const geometry: PcbModelGeometry = {
     widthMm,
@@ -126,17 +157,48 @@ export function buildPcbGeometry(params: BuildPcbGeometryParams): PcbModelGeomet
     copperLayers,
     maskLayers,
     silkLayers,
+    pasteLayers,
     outline: outlineLayer,
     drills,
+    slots,
+    stackup,
+    appearance,
+    diagnostics,
   };
 
   return geometry;
 }
 
+/**
+ * Merge a layer's primitives into polygons, dropping degenerate ones.
+ * Exported for the parser workers, which polygonize layers in parallel.
+ */
+export function polygonizeLayer(primitives: GerberPrimitives): Polygon[] {
+  const polys = polygonizePrimitivesUnion(primitives);
+  return polys ? polys.filter(p => p.outer && p.outer.length >= 3) : [];
+}
+
+/**
+ * Whether buildPcbGeometry turns layers of this role into polygons. The
+ * parser workers skip polygonizing the others.
+ */
+export function isRenderedRole(role: string): boolean {
+  const { side, kind } = roleToSideAndKind(role);
+  // Inner copper has no side, other kinds without one are not rendered
+  return kind !== null && (side !== null || kind === "copper");
+}
+
+// Finite keys only: subtracting two infinities in the comparator gives NaN.
+function copperSortKey(layer: LayerGeometry): number {
+  if (layer.side === "top") return -1;
+  if (layer.side === "bottom") return Number.MAX_SAFE_INTEGER;
+  return layer.copperIndex ?? Number.MAX_SAFE_INTEGER - 1;
+}
+
 function roleToSideAndKind(
-  layer: ParsedGerberLayer
+  layerRole: string
 ): { side: PcbSide | null; kind: PcbLayerKind | null } {
-  const role = (layer.role || "").toLowerCase();
+  const role = (layerRole || "").toLowerCase();
 
   if (role === "top_copper") {
     return { side: "top", kind: "copper" };
@@ -162,6 +224,13 @@ function roleToSideAndKind(
     return { side: "bottom", kind: "silkscreen" };
   }
 
+  if (role === "top_paste") {
+    return { side: "top", kind: "paste" };
+  }
+  if (role === "bottom_paste") {
+    return { side: "bottom", kind: "paste" };
+  }
+
   if (role === "outline") {
     return { side: null, kind: "outline" };
   }
@@ -215,3 +284,13 @@ function flattenDrills(parsedDrills: { holes: DrillHole[] }[]): DrillHole[] {
   }
   return out;
 }
+
+function flattenSlots(parsedDrills: { slots: DrillSlot[] }[]): DrillSlot[] {
+  const out: DrillSlot[] = [];
+  for (const d of parsedDrills) {
+    for (const s of d.slots) {
+      out.push(s);
+    }
+  }
+  return out;
+}
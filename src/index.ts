@@ -1,3 +1,5 @@
 export * from "./core/gerber-renderer";
 export * from "./types/pcb-model";
 export * from "./types/options";
+export * from "./types/diagnostics";
+export { ParseError, AbortError } from "./utils/error";
@@ -0,0 +1,160 @@
+// src/io/content-sniffer.ts
+import type { LayerRole } from "./file-classifier";
+
+/**
+ * Content based detection of file types and layer roles.
+ *
+ * Looking inside a file is far more reliable than its name: X2 files state
+ * their function (%TF.FileFunction), Excellon files open with an M48
+ * header, and many CAM tools leave the layer name in G04 comments.
+ */
+
+/**
+ * Bytes at the start of a file that are enough for every check here:
+ * X2 file attributes, CAM tool comments and the Excellon header all come
+ * before the image data.
+ */
+export const SNIFF_BYTES = 16384;
+
+export interface SniffedRole {
+  role: LayerRole;
+  confidence: number; // 0..1
+  reason: string;
+}
+
+/**
+ * True when the text reads like an Excellon drill file.
+ */
+export function looksLikeExcellon(text: string): boolean {
+  const head = text.slice(0, 4096);
+  if (/^\s*M48\s*$/m.test(head)) return true;
+  if (/^;\s*(FILE_FORMAT|TYPE=(PLATED|NON_PLATED|MIXED))/im.test(head)) return true;
+  // Header less files define tools inline, without Gerber's "*"
+  return /^T\d+C[\d.]+[^*\n]*$/m.test(head);
+}
+
+/**
+ * True when the text reads like a Gerber file.
+ */
+export function looksLikeGerber(text: string): boolean {
+  const head = text.slice(0, 4096);
+  return /%FS[LTD]?[AI]?/.test(head) || /%MO(MM|IN)/.test(head) || /^G04[^*]*\*/m.test(head);
+}
+
+/**
+ * Work out the role of a Gerber file from its content, or null when the
+ * content says nothing about it.
+ */
+export function sniffGerberRole(text: string): SniffedRole | null {
+  const values = sniffFileFunction(text);
+  if (values) {
+    const side = /(?:%|#@!\s*)TF\.FileSide,([^*%,]*)/.exec(text);
+    const role = fileFunctionToRole(values, side ? side[1].trim() : undefined);
+    return {
+      role,
+      confidence: role === "unknown" ? 0.5 : 0.95,
+      reason: `X2 attribute .FileFunction,${values.join(",")}`,
+    };
+  }
+
+  // Layer names that CAM tools write in G04 comments
+  const comments = text.slice(0, SNIFF_BYTES).match(/G04[^*]*\*/g) || [];
+  for (const comment of comments) {
+    for (const [pattern, role] of CAM_COMMENT_PATTERNS) {
+      const m = pattern.exec(comment);
+      if (m) {
+        return {
+          role,
+          confidence: 0.75,
+          reason: `G04 comment mentions "${m[0]}"`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The X2 .FileFunction fields of a Gerber file, either from %TF or from a
+ * "G04 #@! TF" comment, or null when the file has none.
+ */
+export function sniffFileFunction(text: string): string[] | null {
+  const ff = /(?:%|#@!\s*)TF\.FileFunction,([^*%]*)/.exec(text);
+  return ff ? ff[1].split(",").map((v) => v.trim()) : null;
+}
+
+/**
+ * Plating of drill or route data written as Gerber, from .FileFunction
+ * "Plated,1,2,PTH" or "NonPlated,1,2,NPTH". Null for any other function.
+ */
+export function drillFileFunctionPlating(values: string[]): boolean | null {
+  const fn = (values[0] || "").toLowerCase();
+  if (fn === "plated") return true;
+  if (fn === "nonplated") return false;
+  return null;
+}
+
+/**
+ * Map the fields of a .FileFunction attribute (and optional .FileSide) to a
+ * layer role. Functions that are not rendered map to "mechanical".
+ */
+export function fileFunctionToRole(values: string[], fileSide?: string): LayerRole {
+  const fn = (values[0] || "").toLowerCase();
+  const sideOf = (v?: string) => {
+    const s = (v || "").toLowerCase();
+    return s === "top" ? "top" : s === "bot" || s === "bottom" ? "bottom" : s === "inr" ? "inner" : null;
+  };
+
+  if (fn === "copper") {
+    const side = sideOf(values[2]) ?? sideOf(fileSide);
+    if (side === "top") return "top_copper";
+    if (side === "bottom") return "bottom_copper";
+    return "inner_copper";
+  }
+
+  const side = sideOf(values[1]) ?? sideOf(fileSide);
+
+  if (fn === "soldermask") {
+    return side === "bottom" ? "bottom_mask" : side === "top" ? "top_mask" : "unknown";
+  }
+  if (fn === "legend") {
+    return side === "bottom" ? "bottom_silk" : side === "top" ? "top_silk" : "unknown";
+  }
+  if (fn === "paste") {
+    return side === "bottom" ? "bottom_paste" : side === "top" ? "top_paste" : "unknown";
+  }
+  if (fn === "profile") return "outline";
+
+  // Drill and route data and the various drawings are not layers we render
+  if (fn === "plated" || fn === "nonplated") return "unknown";
+
+  return "mechanical";
+}
+
+const CAM_COMMENT_PATTERNS: Array<[RegExp, LayerRole]> = [
+  // KiCad layer names
+  [/\bF[._]Cu\b/i, "top_copper"],
+  [/\bB[._]Cu\b/i, "bottom_copper"],
+  [/\bIn\d+[._]Cu\b/i, "inner_copper"],
+  [/\bF[._]Mask\b/i, "top_mask"],
+  [/\bB[._]Mask\b/i, "bottom_mask"],
+  [/\bF[._]S(?:ilkS|ilkscreen)\b/i, "top_silk"],
+  [/\bB[._]S(?:ilkS|ilkscreen)\b/i, "bottom_silk"],
+  [/\bF[._]Paste\b/i, "top_paste"],
+  [/\bB[._]Paste\b/i, "bottom_paste"],
+  [/\bEdge[._]Cuts\b/i, "outline"],
+
+  // Altium and generic layer names
+  [/\bTop Overlay\b/i, "top_silk"],
+  [/\bBottom Overlay\b/i, "bottom_silk"],
+  [/\bTop Solder(?: ?Mask)?\b/i, "top_mask"],
+  [/\bBottom Solder(?: ?Mask)?\b/i, "bottom_mask"],
+  [/\bTop Paste\b/i, "top_paste"],
+  [/\bBottom Paste\b/i, "bottom_paste"],
+  [/\bTop (?:Layer|Copper)\b/i, "top_copper"],
+  [/\bBottom (?:Layer|Copper)\b/i, "bottom_copper"],
+  [/\bMid[- ]?Layer ?\d+\b/i, "inner_copper"],
+  [/\bBoard Outline\b/i, "outline"],
+  [/\bLayer_Physical_Order=1\b/, "top_copper"],
+];
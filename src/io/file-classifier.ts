@@ -1,6 +1,21 @@
 // src/io/file-classifier.ts
 import type { ZipEntry } from "./unzip";
 import { normalizeGerberText, normalizeDrillText } from "./file-normalizer";
+import {
+  looksLikeExcellon,
+  looksLikeGerber,
+  sniffGerberRole,
+  sniffFileFunction,
+  fileFunctionToRole,
+  drillFileFunctionPlating,
+  SNIFF_BYTES,
+} from "./content-sniffer";
+import {
+  isJobFileName,
+  parseGerberJobFile,
+  jobFileFunction,
+  type GerberJob,
+} from "./job-file";
 
 export type LayerRole =
   | "top_copper"
@@ -10,6 +25,8 @@ export type LayerRole =
   | "bottom_mask"
   | "top_silk"
   | "bottom_silk"
+  | "top_paste"
+  | "bottom_paste"
   | "outline"
   | "mechanical"
   | "unknown";
@@ -27,15 +44,30 @@ export interface LayerHints {
   hints: LayerHint[];
 }
 
+/**
+ * How sure the classifier is, and why. Confidence runs from 0 (a guess)
+ * to 1 (explicit hint). Roughly:
+ * - 1.0   caller hint
+ * - 0.95  X2 .FileFunction attribute or Excellon header
+ * - 0.9   .FileFunction listed in the job file
+ * - 0.75  layer name in a CAM tool comment
+ * - 0.6   well known file extension
+ * - 0.4   filename keywords
+ */
+export interface ClassificationInfo {
+  confidence: number;
+  reason: string;
+}
+
 /**
  * Normalized representation of a Gerber like file from the zip.
  */
-export interface ClassifiedGerberFile {
+export interface ClassifiedGerberFile extends ClassificationInfo {
   name: string;
   role: LayerRole;
   rawEntry: ZipEntry;
   /**
-   * Lazily read and normalized text content.
+   * Normalized text content, decoded on the first call.
    * This calls normalizeGerberText under the hood.
    */
   getText: () => Promise<string>;
@@ -44,58 +76,118 @@ export interface ClassifiedGerberFile {
 /**
  * Normalized representation of a drill file from the zip.
  */
-export interface ClassifiedDrillFile {
+export interface ClassifiedDrillFile extends ClassificationInfo {
   name: string;
   rawEntry: ZipEntry;
   /**
-   * Lazily read and normalized text content.
-   * This calls normalizeDrillText under the hood.
+   * "excellon" for NC drill files, "gerber" for drill and route data
+   * written as Gerber (X2 .FileFunction Plated / NonPlated).
+   */
+  format: "excellon" | "gerber";
+  /**
+   * Normalized text content, decoded on the first call.
+   * This calls normalizeDrillText (or normalizeGerberText for Gerber
+   * drill files) under the hood.
    */
   getText: () => Promise<string>;
 }
 
+/**
+ * Gerber job file (.gbrjob) found in the zip, already parsed.
+ */
+export interface ClassifiedJobFile {
+  name: string;
+  rawEntry: ZipEntry;
+  job: GerberJob;
+}
+
 export interface ClassifiedFiles {
   gerbers: ClassifiedGerberFile[];
   drills: ClassifiedDrillFile[];
+  job?: ClassifiedJobFile;
   ignored: ZipEntry[];
 }
 
 /**
  * Classify zip entries into Gerber layers, drill files, and ignored files.
+ *
+ * Documents, images and other files that cannot be CAM data are ignored
+ * unread. For the rest, the first SNIFF_BYTES decide between Gerber and
+ * drill data and, where they say so, the layer role; filenames are the
+ * fallback. Caller hints override both. Full texts are decoded later, by
+ * getText.
  */
-export function classifyFiles(
+export async function classifyFiles(
   entries: ZipEntry[],
   hints?: LayerHints
-): ClassifiedFiles {
+): Promise<ClassifiedFiles> {
   const gerbers: ClassifiedGerberFile[] = [];
   const drills: ClassifiedDrillFile[] = [];
   const ignored: ZipEntry[] = [];
+  let jobFile: ClassifiedJobFile | undefined;
 
+  const candidates: ZipEntry[] = [];
   for (const entry of entries) {
+    if (isCandidate(entry.name.toLowerCase())) candidates.push(entry);
+    else ignored.push(entry);
+  }
+
+  // The job file, if any, lists the function of the other files
+  for (const entry of candidates) {
+    if (!isJobFileName(entry.name.toLowerCase())) continue;
+    const job = parseGerberJobFile(await entry.text());
+    if (job) {
+      jobFile = { name: entry.name, rawEntry: entry, job };
+      break;
+    }
+  }
+
+  for (const entry of candidates) {
     const lowerName = entry.name.toLowerCase();
 
-    if (isDrillFile(lowerName)) {
+    if (jobFile && entry === jobFile.rawEntry) continue;
+
+    const head = await entry.head(SNIFF_BYTES);
+
+    if (looksLikeExcellon(head) || (!looksLikeGerber(head) && isDrillFile(lowerName))) {
+      const fromContent = looksLikeExcellon(head);
       drills.push({
         name: entry.name,
         rawEntry: entry,
-        getText: async () => {
-          const raw = await entry.text();
-          return normalizeDrillText(raw);
-        },
+        format: "excellon",
+        confidence: fromContent ? 0.95 : 0.6,
+        reason: fromContent ? "Excellon header" : "Drill file extension",
+        getText: lazyText(entry, normalizeDrillText),
       });
       continue;
     }
 
-    if (isLikelyGerber(lowerName)) {
-      const role = classifyLayerRole(entry.name, hints);
+    if (looksLikeGerber(head) || isLikelyGerber(lowerName)) {
+      const info = classifyLayerRole(entry.name, head, hints, jobFile?.job);
+      const getText = lazyText(entry, normalizeGerberText);
+
+      // Drill and route data written as Gerber, unless a hint says otherwise
+      if (info.role === "unknown") {
+        const fromContent = sniffFileFunction(head);
+        const fn = fromContent ?? (jobFile ? jobFileFunction(jobFile.job, entry.name) : null);
+        if (fn && drillFileFunctionPlating(fn) !== null) {
+          drills.push({
+            name: entry.name,
+            rawEntry: entry,
+            format: "gerber",
+            confidence: fromContent ? 0.95 : 0.9,
+            reason: `${fromContent ? "X2 attribute" : "Job file"} .FileFunction,${fn.join(",")}`,
+            getText,
+          });
+          continue;
+        }
+      }
+
       gerbers.push({
         name: entry.name,
-        role,
         rawEntry: entry,
-        getText: async () => {
-          const raw = await entry.text();
-          return normalizeGerberText(raw);
-        },
+        ...info,
+        getText,
       });
       continue;
     }
@@ -104,16 +196,52 @@ export function classifyFiles(
     ignored.push(entry);
   }
 
-  return { gerbers, drills, ignored };
+  return { gerbers, drills, job: jobFile, ignored };
+}
+
+/**
+ * Decode and normalize an entry once, on the first call.
+ */
+function lazyText(entry: ZipEntry, normalize: (raw: string) => string): () => Promise<string> {
+  let text: Promise<string> | null = null;
+  return () => {
+    if (!text) text = entry.text().then(normalize);
+    return text;
+  };
+}
+
+/**
+ * Extensions of the documents, images, archives and CAD files that often
+ * come along with fabrication data. Such entries are never read.
+ */
+const NON_CAM_EXTENSIONS: ReadonlySet<string> = new Set([
+  "pdf", "png", "jpg", "jpeg", "gif", "bmp", "tif", "tiff", "webp", "svg", "ico",
+  "zip", "rar", "7z", "gz", "tar",
+  "doc", "docx", "xls", "xlsx", "odt", "ods", "rtf", "md", "html", "htm", "json", "xml",
+  "step", "stp", "wrl", "stl", "dxf", "dwg", "exe", "dll",
+  "kicad_pcb", "kicad_sch", "kicad_pro", "pcbdoc", "schdoc", "prjpcb", "brd", "sch",
+]);
+
+/**
+ * True when an entry may hold CAM data and its content is worth a look,
+ * which is anything but the extensions above. Names such as
+ * "drill_map.pdf" are not drill files.
+ */
+function isCandidate(lowerName: string): boolean {
+  const ext = /\.([a-z0-9_]+)$/.exec(lowerName);
+  return !ext || !NON_CAM_EXTENSIONS.has(ext[1]);
 }
 
 /**
  * Decide if a file looks like a drill file based on extension and usual naming.
+ * Only used when the content is neither Excellon nor Gerber.
  */
 function isDrillFile(lowerName: string): boolean {
   if (lowerName.endsWith(".drl")) return true;
+  if (lowerName.endsWith(".xln")) return true;
   if (lowerName.endsWith(".xlnt")) return true;
-  if (lowerName.includes("drill") || lowerName.includes("via")) return true;
+  if (lowerName.endsWith(".exc")) return true;
+  if (lowerName.includes("drill")) return true;
   return false;
 }
 
@@ -137,58 +265,135 @@ function isLikelyGerber(lowerName: string): boolean {
   if (lowerName.endsWith(".gbs")) return true; // bottom mask
   if (lowerName.endsWith(".gto")) return true; // top silk
   if (lowerName.endsWith(".gbo")) return true; // bottom silk
+  if (lowerName.endsWith(".gtp")) return true; // top paste
+  if (lowerName.endsWith(".gbp")) return true; // bottom paste
   if (lowerName.endsWith(".gm1")) return true; // outline or mechanical
 
   return false;
 }
 
 /**
- * Classify a Gerber file into a layer role using hints first, then heuristics.
+ * Classify a Gerber file into a layer role using hints first, then the
+ * file content and job file, then filename heuristics.
  */
-function classifyLayerRole(name: string, hints?: LayerHints): LayerRole {
+function classifyLayerRole(
+  name: string,
+  text: string,
+  hints?: LayerHints,
+  job?: GerberJob
+): ClassificationInfo & { role: LayerRole } {
   const baseName = name.split("/").pop() || name;
-  const lower = baseName.toLowerCase();
 
   // 1. Explicit hints take precedence
   if (hints && hints.hints && hints.hints.length > 0) {
     for (const hint of hints.hints) {
       if (matchesPattern(baseName, hint.pattern)) {
-        return hint.role;
+        return {
+          role: hint.role,
+          confidence: 1,
+          reason: `Layer hint "${hint.pattern}"`,
+        };
       }
     }
   }
 
-  // 2. Heuristics based on common naming schemes
+  // 2. What the file says about itself
+  const sniffed = sniffGerberRole(text);
+  if (sniffed && sniffed.role !== "unknown") return sniffed;
+
+  // 3. What the job file says about it
+  const fn = job ? jobFileFunction(job, name) : null;
+  if (fn) {
+    return {
+      role: fileFunctionToRole(fn),
+      confidence: 0.9,
+      reason: `Job file .FileFunction,${fn.join(",")}`,
+    };
+  }
+  if (sniffed) return sniffed;
+
+  // 4. Filename
+  return classifyRoleFromName(baseName);
+}
+
+/**
+ * Heuristics based on common naming schemes. Standard extensions are
+ * trusted more than keywords found somewhere in the name.
+ */
+function classifyRoleFromName(baseName: string): ClassificationInfo & { role: LayerRole } {
+  const lower = baseName.toLowerCase();
+
+  const ext = /\.([a-z0-9]+)$/.exec(lower);
+  const extRole = ext ? EXTENSION_ROLES[ext[1]] : undefined;
+  if (extRole) {
+    return { role: extRole, confidence: 0.6, reason: `File extension .${ext![1]}` };
+  }
+
+  const role = roleFromNameKeywords(lower);
+  return role === "unknown"
+    ? { role, confidence: 0, reason: "No layer information in content or filename" }
+    : { role, confidence: 0.4, reason: `Filename "${baseName}"` };
+}
+
+/**
+ * Protel style extensions, as written by KiCad, Altium, Eagle and others.
+ */
+const EXTENSION_ROLES: { [ext: string]: LayerRole } = {
+  gtl: "top_copper",
+  gbl: "bottom_copper",
+  gts: "top_mask",
+  gbs: "bottom_mask",
+  gto: "top_silk",
+  gbo: "bottom_silk",
+  gtp: "top_paste",
+  gbp: "bottom_paste",
+  gm1: "outline",
+  gko: "outline",
+  cmp: "top_copper",
+  sol: "bottom_copper",
+  stc: "top_mask",
+  sts: "bottom_mask",
+};
+
+function roleFromNameKeywords(lower: string): LayerRole {
 
   // Copper
-  if (lower.includes("f_cu") || lower.endsWith(".gtl") || lower.includes("top") && lower.includes("cu")) {
+  if (lower.includes("f_cu") || lower.includes("top") && lower.includes("cu")) {
     return "top_copper";
   }
-  if (lower.includes("b_cu") || lower.endsWith(".gbl") || lower.includes("bot") && lower.includes("cu")) {
+  if (lower.includes("b_cu") || lower.includes("bot") && lower.includes("cu")) {
     return "bottom_copper";
   }
-  if (lower.includes("in") && lower.includes("cu")) {
+  if (/(^|[^a-z])in\d+[._-]?cu/.test(lower) || /\.g(p)?\d+$/.test(lower)) {
     return "inner_copper";
   }
 
   // Soldermask
-  if (lower.includes("f_mask") || lower.endsWith(".gts") || lower.includes("top") && lower.includes("mask")) {
+  if (lower.includes("f_mask") || lower.includes("top") && lower.includes("mask")) {
     return "top_mask";
   }
-  if (lower.includes("b_mask") || lower.endsWith(".gbs") || lower.includes("bot") && lower.includes("mask")) {
+  if (lower.includes("b_mask") || lower.includes("bot") && lower.includes("mask")) {
     return "bottom_mask";
   }
 
   // Silkscreen
-  if (lower.includes("f_silk") || lower.endsWith(".gto") || lower.includes("top") && lower.includes("silk")) {
+  if (lower.includes("f_silk") || lower.includes("top") && lower.includes("silk")) {
     return "top_silk";
   }
-  if (lower.includes("b_silk") || lower.endsWith(".gbo") || lower.includes("bot") && lower.includes("silk")) {
+  if (lower.includes("b_silk") || lower.includes("bot") && lower.includes("silk")) {
     return "bottom_silk";
   }
 
+  // Solder paste
+  if (lower.includes("f_paste") || lower.includes("top") && lower.includes("paste")) {
+    return "top_paste";
+  }
+  if (lower.includes("b_paste") || lower.includes("bot") && lower.includes("paste")) {
+    return "bottom_paste";
+  }
+
   // Outline and mechanical
-  if (lower.includes("edge_cuts") || lower.includes("outline") || lower.includes("edge") || lower.endsWith(".gm1")) {
+  if (lower.includes("edge_cuts") || lower.includes("outline") || lower.includes("edge")) {
     return "outline";
   }
 
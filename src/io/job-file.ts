@@ -0,0 +1,145 @@
+// src/io/job-file.ts
+
+/**
+ * Gerber job file (.gbrjob) support.
+ *
+ * A job file is JSON written next to the Gerber files by KiCad, Altium and
+ * others. It describes the board as a whole: thickness, finish, the file
+ * list with each file's function, and the material stackup from top to
+ * bottom including colours. Only the parts we use are read, everything is
+ * optional.
+ */
+
+export interface GerberJobFileEntry {
+  path: string;
+  fileFunction: string[]; // e.g. ["Copper", "L2", "Inr"]
+  filePolarity?: string;
+}
+
+export interface GerberJobStackupLayer {
+  type: string;          // Copper, Dielectric, SolderMask, Legend, SolderPaste
+  name?: string;
+  thicknessMm?: number;
+  material?: string;     // e.g. FR4
+  color?: string;        // e.g. Green, White, #RRGGBB
+}
+
+export interface GerberJob {
+  boardThicknessMm?: number;
+  copperLayerCount?: number;
+  finish?: string;          // e.g. ENIG, HAL SnPb, OSP
+  soldermaskColor?: string; // from the first SolderMask stackup entry
+  silkscreenColor?: string; // from the first Legend stackup entry
+  files: GerberJobFileEntry[];
+  stackup: GerberJobStackupLayer[]; // top to bottom
+}
+
+/**
+ * True for names that job files are written with.
+ */
+export function isJobFileName(lowerName: string): boolean {
+  return lowerName.endsWith(".gbrjob");
+}
+
+/**
+ * Parse a job file. Returns null when the text is not a job file.
+ */
+export function parseGerberJobFile(text: string): GerberJob | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(parsed)) return null;
+  const root = parsed;
+  if (!root.GeneralSpecs && !root.FilesAttributes && !root.MaterialStackup) return null;
+
+  const specs = asObject(root.GeneralSpecs);
+
+  const files: GerberJobFileEntry[] = [];
+  for (const item of asArray(root.FilesAttributes)) {
+    const f = asObject(item);
+    const path = asString(f.Path);
+    if (path === undefined) continue;
+    const fileFunction = asString(f.FileFunction);
+    files.push({
+      path,
+      fileFunction: fileFunction ? fileFunction.split(",").map((v) => v.trim()) : [],
+      filePolarity: asString(f.FilePolarity),
+    });
+  }
+
+  const stackup: GerberJobStackupLayer[] = [];
+  for (const item of asArray(root.MaterialStackup)) {
+    const l = asObject(item);
+    const type = asString(l.Type);
+    if (type === undefined) continue;
+    stackup.push({
+      type,
+      name: asString(l.Name),
+      thicknessMm: asNumber(l.Thickness),
+      material: asString(l.Material),
+      color: asString(l.Color),
+    });
+  }
+
+  const colorOf = (type: string) =>
+    stackup.find((l) => l.type.toLowerCase() === type && l.color)?.color;
+
+  // Finish is in GeneralSpecs in current files, older KiCad wrote it in
+  // the fabrication section
+  const finish = asString(specs.Finish) ?? asString(asObject(root.Fabrication).Finish);
+
+  return {
+    boardThicknessMm: asNumber(specs.BoardThickness),
+    copperLayerCount: asNumber(specs.LayerNumber),
+    finish: finish && finish.toLowerCase() !== "none" ? finish : undefined,
+    soldermaskColor: colorOf("soldermask"),
+    silkscreenColor: colorOf("legend"),
+    files,
+    stackup,
+  };
+}
+
+/**
+ * The .FileFunction the job file gives for a Gerber file, matched on the
+ * file name without directories, or null when the job does not list it.
+ */
+export function jobFileFunction(job: GerberJob, name: string): string[] | null {
+  const base = (name.split("/").pop() || name).toLowerCase();
+  for (const f of job.files) {
+    const path = (f.path.split(/[\\/]/).pop() || f.path).toLowerCase();
+    if (path === base && f.fileFunction.length) return f.fileFunction;
+  }
+  return null;
+}
+
+/**
+ * A JSON object, whose fields are checked one by one as they are read.
+ */
+interface JsonObject {
+  [key: string]: unknown;
+}
+
+function isObject(v: unknown): v is JsonObject {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Anything else reads as an empty object, so missing sections are skipped
+function asObject(v: unknown): JsonObject {
+  return isObject(v) ? v : {};
+}
+
+function asArray(v: unknown): unknown[] {
+  return Array.isArray(v) ? v : [];
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === "string" ? v : undefined;
+}
+
+function asNumber(v: unknown): number | undefined {
+  const n = typeof v === "string" ? parseFloat(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
@@ -1,6 +1,8 @@
 // src/io/unzip.ts
 import JSZip from "jszip";
 
+const utf8 = new TextDecoder("utf-8");
+
 /**
  * A single entry inside the unzipped gerbers.zip
  */
@@ -9,12 +11,15 @@ export interface ZipEntry {
   name: string;
   /** Read entry as UTF-8 text */
   text: () => Promise<string>;
-  /** Read entry as ArrayBuffer */
+  /** Read the first byteCount bytes of the entry as UTF-8 text */
+  head: (byteCount: number) => Promise<string>;
+  /** Read entry as ArrayBuffer, a copy the caller owns */
   arrayBuffer: () => Promise<ArrayBuffer>;
 }
 
 /**
  * Accepts a File, Blob, or ArrayBuffer and returns a list of ZipEntry helpers.
+ * Entries are decompressed on first read, and only once for head and text.
  */
 export async function unzipGerbersZip(
   input: File | Blob | ArrayBuffer
@@ -32,10 +37,17 @@ export async function unzipGerbersZip(
 
     const normalizedName = normalizeZipPath(rawName);
 
+    let bytes: Promise<Uint8Array> | null = null;
+    const read = () => {
+      if (!bytes) bytes = file.async("uint8array");
+      return bytes;
+    };
+
     entries.push({
       name: normalizedName,
-      text: () => file.async("text"),
-      arrayBuffer: () => file.async("arraybuffer"),
+      text: () => read().then((b) => utf8.decode(b)),
+      head: (byteCount) => read().then((b) => utf8.decode(b.subarray(0, byteCount))),
+      arrayBuffer: () => read().then((b) => new Uint8Array(b).buffer),
     });
   });
 
@@ -0,0 +1,395 @@
+// src/parse/aperture-macro.ts
+
+import type { Vec2 } from "../types/pcb-model";
+
+/**
+ * Aperture macro support (%AM).
+ *
+ * A macro is stored unevaluated when %AM is read. Each %AD that references
+ * the macro instantiates it with concrete parameters, which yields a list of
+ * MacroPrimitive shapes in mm, relative to the aperture origin. The
+ * polygonizer turns those into polygons.
+ */
+
+type MacroStatement =
+  | { kind: "assign"; variable: number; expr: string }
+  | { kind: "primitive"; code: number; modifiers: string[] };
+
+export interface ApertureMacro {
+  name: string;
+  statements: MacroStatement[];
+}
+
+/**
+ * Evaluated macro primitives. All lengths are in mm, positions are relative
+ * to the aperture origin and rotation is in degrees counterclockwise around
+ * the aperture origin (not around the primitive center), as in the spec.
+ */
+export type MacroPrimitive =
+  | {
+      kind: "circle";
+      exposure: boolean;
+      diameter: number;
+      center: Vec2;
+      rotation: number;
+    }
+  | {
+      kind: "vectorLine";
+      exposure: boolean;
+      width: number;
+      start: Vec2;
+      end: Vec2;
+      rotation: number;
+    }
+  | {
+      kind: "centerLine";
+      exposure: boolean;
+      width: number;
+      height: number;
+      center: Vec2;
+      rotation: number;
+    }
+  | {
+      kind: "outline";
+      exposure: boolean;
+      points: Vec2[];
+      rotation: number;
+    }
+  | {
+      kind: "polygon";
+      exposure: boolean;
+      vertices: number;
+      center: Vec2;
+      diameter: number;
+      rotation: number;
+    }
+  | {
+      kind: "moire";
+      center: Vec2;
+      outerDiameter: number;
+      ringThickness: number;
+      gap: number;
+      maxRings: number;
+      crosshairThickness: number;
+      crosshairLength: number;
+      rotation: number;
+    }
+  | {
+      kind: "thermal";
+      center: Vec2;
+      outerDiameter: number;
+      innerDiameter: number;
+      gap: number;
+      rotation: number;
+    };
+
+/**
+ * Parse the body of an %AM block, without the surrounding percent signs.
+ * Example: "AMRoundRect*0 comment*1,1,$1,$2,$3*4,1,4,...*"
+ */
+export function parseApertureMacro(body: string): ApertureMacro | null {
+  const words = body
+    .split("*")
+    .map((w) => w.trim())
+    .filter((w) => w.length > 0);
+
+  if (!words.length || !words[0].startsWith("AM")) return null;
+
+  const name = words[0].slice(2).trim();
+  if (!name) return null;
+
+  const statements: MacroStatement[] = [];
+
+  for (const rawWord of words.slice(1)) {
+    // Comment primitive: "0 any text"
+    if (/^0(\s|$)/.test(rawWord)) continue;
+
+    const word = rawWord.replace(/\s+/g, "");
+    if (!word) continue;
+
+    const assign = /^\$(\d+)=(.+)$/.exec(word);
+    if (assign) {
+      statements.push({
+        kind: "assign",
+        variable: parseInt(assign[1], 10),
+        expr: assign[2],
+      });
+      continue;
+    }
+
+    const parts = word.split(",");
+    const code = parseInt(parts[0], 10);
+    if (Number.isNaN(code)) continue;
+
+    statements.push({ kind: "primitive", code, modifiers: parts.slice(1) });
+  }
+
+  return { name, statements };
+}
+
+/**
+ * Evaluate a macro with the parameters from %AD.
+ * Unknown primitive codes are skipped.
+ */
+export function instantiateMacro(
+  macro: ApertureMacro,
+  params: number[],
+  unitScale: number
+): MacroPrimitive[] {
+  const vars = new Map<number, number>();
+  params.forEach((v, i) => vars.set(i + 1, v));
+
+  const out: MacroPrimitive[] = [];
+
+  for (const st of macro.statements) {
+    if (st.kind === "assign") {
+      vars.set(st.variable, evaluateExpression(st.expr, vars));
+      continue;
+    }
+
+    const m = st.modifiers.map((e) => evaluateExpression(e, vars));
+    const at = (i: number): number => (i < m.length ? m[i] : 0);
+    const len = (i: number): number => at(i) * unitScale;
+    const pt = (i: number): Vec2 => ({ x: len(i), y: len(i + 1) });
+    const exposure = at(0) !== 0;
+
+    switch (st.code) {
+      case 1:
+        out.push({
+          kind: "circle",
+          exposure,
+          diameter: len(1),
+          center: pt(2),
+          rotation: at(4),
+        });
+        break;
+
+      case 2: // deprecated alias of 20
+      case 20:
+        out.push({
+          kind: "vectorLine",
+          exposure,
+          width: len(1),
+          start: pt(2),
+          end: pt(4),
+          rotation: at(6),
+        });
+        break;
+
+      case 21:
+        out.push({
+          kind: "centerLine",
+          exposure,
+          width: len(1),
+          height: len(2),
+          center: pt(3),
+          rotation: at(5),
+        });
+        break;
+
+      case 22: {
+        // Deprecated lower left line, normalized to a center line
+        const w = len(1);
+        const h = len(2);
+        const ll = pt(3);
+        out.push({
+          kind: "centerLine",
+          exposure,
+          width: w,
+          height: h,
+          center: { x: ll.x + w / 2, y: ll.y + h / 2 },
+          rotation: at(5),
+        });
+        break;
+      }
+
+      case 4: {
+        const n = Math.max(0, Math.floor(at(1)));
+        const points: Vec2[] = [];
+        for (let i = 0; i <= n; i++) {
+          points.push(pt(2 + i * 2));
+        }
+        out.push({
+          kind: "outline",
+          exposure,
+          points,
+          rotation: at(2 + (n + 1) * 2),
+        });
+        break;
+      }
+
+      case 5:
+        out.push({
+          kind: "polygon",
+          exposure,
+          vertices: Math.max(3, Math.floor(at(1))),
+          center: pt(2),
+          diameter: len(4),
+          rotation: at(5),
+        });
+        break;
+
+      case 6:
+        out.push({
+          kind: "moire",
+          center: pt(0),
+          outerDiameter: len(2),
+          ringThickness: len(3),
+          gap: len(4),
+          maxRings: Math.max(0, Math.floor(at(5))),
+          crosshairThickness: len(6),
+          crosshairLength: len(7),
+          rotation: at(8),
+        });
+        break;
+
+      case 7:
+        out.push({
+          kind: "thermal",
+          center: pt(0),
+          outerDiameter: len(2),
+          innerDiameter: len(3),
+          gap: len(4),
+          rotation: at(5),
+        });
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Rescale the lengths of already evaluated macro primitives, used when the
+ * first unit command follows aperture definitions.
+ */
+export function scaleMacroPrimitives(prims: MacroPrimitive[], factor: number) {
+  const sv = (p: Vec2): Vec2 => ({ x: p.x * factor, y: p.y * factor });
+
+  for (const p of prims) {
+    switch (p.kind) {
+      case "circle":
+        p.diameter *= factor;
+        p.center = sv(p.center);
+        break;
+      case "vectorLine":
+        p.width *= factor;
+        p.start = sv(p.start);
+        p.end = sv(p.end);
+        break;
+      case "centerLine":
+        p.width *= factor;
+        p.height *= factor;
+        p.center = sv(p.center);
+        break;
+      case "outline":
+        p.points = p.points.map(sv);
+        break;
+      case "polygon":
+        p.diameter *= factor;
+        p.center = sv(p.center);
+        break;
+      case "moire":
+        p.center = sv(p.center);
+        p.outerDiameter *= factor;
+        p.ringThickness *= factor;
+        p.gap *= factor;
+        p.crosshairThickness *= factor;
+        p.crosshairLength *= factor;
+        break;
+      case "thermal":
+        p.center = sv(p.center);
+        p.outerDiameter *= factor;
+        p.innerDiameter *= factor;
+        p.gap *= factor;
+        break;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Arithmetic expressions
+// -----------------------------------------------------------------------------
+
+/**
+ * Evaluate a macro arithmetic expression such as "$1x2+($3-0.1)/2".
+ *
+ * Grammar (usual precedence, "x" or "X" is multiplication):
+ *   expr   := term (("+" | "-") term)*
+ *   term   := factor (("x" | "X" | "/") factor)*
+ *   factor := ("+" | "-") factor | number | "$" digits | "(" expr ")"
+ *
+ * Undefined variables evaluate to 0. Malformed input evaluates to whatever
+ * could be read so far rather than throwing.
+ */
+export function evaluateExpression(
+  expr: string,
+  vars: Map<number, number>
+): number {
+  let pos = 0;
+  const src = expr.replace(/\s+/g, "");
+
+  const peek = (): string => src[pos] ?? "";
+
+  const parseExpr = (): number => {
+    let v = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      const op = src[pos++];
+      const rhs = parseTerm();
+      v = op === "+" ? v + rhs : v - rhs;
+    }
+    return v;
+  };
+
+  const parseTerm = (): number => {
+    let v = parseFactor();
+    while (peek() === "x" || peek() === "X" || peek() === "/") {
+      const op = src[pos++];
+      const rhs = parseFactor();
+      v = op === "/" ? (rhs !== 0 ? v / rhs : 0) : v * rhs;
+    }
+    return v;
+  };
+
+  const parseFactor = (): number => {
+    const c = peek();
+    if (c === "+") {
+      pos++;
+      return parseFactor();
+    }
+    if (c === "-") {
+      pos++;
+      return -parseFactor();
+    }
+    if (c === "(") {
+      pos++;
+      const v = parseExpr();
+      if (peek() === ")") pos++;
+      return v;
+    }
+    if (c === "$") {
+      const m = /^\$(\d+)/.exec(src.slice(pos));
+      if (!m) {
+        pos++;
+        return 0;
+      }
+      pos += m[0].length;
+      return vars.get(parseInt(m[1], 10)) ?? 0;
+    }
+
+    const m = /^(\d+\.?\d*|\.\d+)/.exec(src.slice(pos));
+    if (!m) {
+      pos = src.length;
+      return 0;
+    }
+    pos += m[0].length;
+    return parseFloat(m[0]);
+  };
+
+  if (!src) return 0;
+  const v = parseExpr();
+  return Number.isFinite(v) ? v : 0;
+}
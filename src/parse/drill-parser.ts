@@ -1,6 +1,10 @@
 // src/parse/drill-parser.ts
 
-import type { DrillHole } from "../types/pcb-model";
+import type { DrillHole, DrillSlot, Vec2 } from "../types/pcb-model";
+import type { ParseOptions } from "../types/options";
+import type { DiagnosticCode, DiagnosticSeverity } from "../types/diagnostics";
+import { createDiagnosticReporter, type DiagnosticReporter } from "../utils/logger";
+import { tessellateArc } from "../utils/math";
 
 /**
  * Parsed drill data for a single Excellon file.
@@ -9,96 +13,613 @@ import type { DrillHole } from "../types/pcb-model";
 export interface ParsedDrillData {
   name: string;
   holes: DrillHole[];
+  slots: DrillSlot[]; // G85 slots and routed paths
 }
 
 /**
- * Very naive Excellon drill parser.
+ * Zero handling of integer coordinates, named as in the units statement:
+ * "LZ" keeps leading zeros (trailing ones are omitted, values are left
+ * aligned), "TZ" keeps trailing zeros (leading ones are omitted, values
+ * are right aligned).
+ */
+type ZeroMode = "LZ" | "TZ";
+
+/**
+ * Motion of the tool in route mode (G00 / G01 / G02 / G03).
+ */
+type RouteMotion = "move" | "linear" | "clockwise" | "counterclockwise";
+
+/**
+ * Internal parser state
+ */
+interface DrillParserState {
+  unitScale: number;    // file units -> mm (1 for mm, 25.4 for inch)
+  unitsSeen: boolean;
+  fmtInt: number;       // digits before the implied decimal point
+  fmtDec: number;       // digits after it
+  formatSeen: boolean;  // format given explicitly, not the unit default
+  zeros: ZeroMode;
+  incremental: boolean; // G91 or ICI,ON
+
+  inHeader: boolean;
+  tools: Map<number, number>; // tool number -> diameter in mm
+  currentTool: number | null;
+
+  x: number;            // current position in mm
+  y: number;
+
+  // Routing: G00 enters route mode, M15 / M16 lower and raise the tool.
+  // G05, M17 or a bare coordinate with the tool up go back to drilling
+  routing: boolean;
+  routeMotion: RouteMotion;
+  toolDown: boolean;
+
+  // Plating, most specific first: per tool (Altium ";Holesize" comments,
+  // KiCad "TA.AperFunction" comments), then the file (";TYPE=" header or
+  // file name). Holes default to plated when nothing says otherwise.
+  toolPlating: Map<number, boolean>;
+  pendingToolPlating: boolean | null; // applies to the next tool defined
+  filePlating: boolean | null;
+
+  holes: DrillHole[];
+  slots: DrillSlot[];
+
+  reporter: DiagnosticReporter;
+  offset: number;       // source offset of the line being handled
+}
+
+const DEFAULT_DIAMETER_MM = 0.6;
+
+/**
+ * Excellon drill file parser.
  *
- * This is intentionally simple and conservative:
- * - It understands basic tool definitions like "T01C0.300"
- * - It understands coordinate lines like "X012345Y067890"
- * - It assumes units are already inches or mm as used in the file, and does
- *   not attempt unit conversion or integer format decoding.
+ * Supports:
+ * - M48 header up to "%" or M95, with tool definitions like "T1C0.300" or
+ *   "T01F00S00C0.300" (extra feed / speed parameters are skipped)
+ * - METRIC / INCH (or M71 / M72), with optional ",LZ" / ",TZ" and
+ *   ",000.000" digit format
+ * - digit format from comments: ";FORMAT={3:3/ ...}", ";FILE_FORMAT=2:4"
+ * - coordinates with or without decimal point, modal X / Y that carry
+ *   over from the previous hit, G90 / G91 and ICI incremental mode
+ * - R repeat codes ("R4X0.5")
+ * - G85 canned slots ("X1Y1G85X2Y1") and routed paths: G00 to move in
+ *   route mode, M15 to plunge, G01 / G02 / G03 to cut, M16 to retract,
+ *   then G05, M17 or plain hits to drill again
+ * - plating from the file name (KiCad "-NPTH.drl", Altium "-NonPlated"),
+ *   ";TYPE=PLATED" / ";TYPE=NON_PLATED" headers and per tool comments
  *
- * For now, you can treat this as a stub and gradually swap in a robust parser
- * if needed. At minimum, it gives you some real hole locations to play with.
+ * All holes are returned in mm.
  */
-export function parseDrillFile(name: string, content: string): ParsedDrillData {
-  const lines = content.split(/\r?\n/);
-
-  const toolDiameters = new Map<string, number>(); // T code -> diameter (same units as file)
-  let currentTool: string | null = null;
+export function parseDrillFile(
+  name: string,
+  content: string,
+  options: ParseOptions = {}
+): ParsedDrillData {
+  const state: DrillParserState = {
+    unitScale: 25.4, // Excellon default is inch
+    unitsSeen: false,
+    fmtInt: 2,
+    fmtDec: 4,
+    formatSeen: false,
+    zeros: "TZ",
+    incremental: false,
+    inHeader: false,
+    tools: new Map(),
+    currentTool: null,
+    x: 0,
+    y: 0,
+    routing: false,
+    routeMotion: "move",
+    toolDown: false,
+    toolPlating: new Map(),
+    pendingToolPlating: null,
+    filePlating: platingFromFileName(name),
+    holes: [],
+    slots: [],
+    reporter: createDiagnosticReporter(
+      name,
+      content,
+      options.diagnostics ?? [],
+      options.strict
+    ),
+    offset: 0,
+  };
 
-  const holes: DrillHole[] = [];
+  // Split on "\n" only so offsets stay exact, trim() drops any "\r"
+  const lines = content.split("\n");
+  let nextLineOffset = 0;
 
   for (const rawLine of lines) {
+    state.offset = nextLineOffset + Math.max(0, rawLine.search(/\S/));
+    nextLineOffset += rawLine.length + 1;
+
     const line = rawLine.trim();
     if (!line) continue;
 
-    // Comment or header lines we ignore for now
-    if (line.startsWith(";")) continue;
-
-    // Tool definition, examples:
-    // T01C0.300
-    // T02C0.600
-    if (line.startsWith("T") && line.includes("C")) {
-      const toolMatch = /^T(\d+)[C]([\d.]+)/i.exec(line);
-      if (toolMatch) {
-        const toolId = toolMatch[1]; // "01"
-        const diameter = parseFloat(toolMatch[2]);
-        if (!Number.isNaN(diameter)) {
-          toolDiameters.set(toolId, diameter);
-        }
-      }
+    if (line.startsWith(";")) {
+      handleComment(line, state);
       continue;
     }
 
-    // Tool change, like "T01"
-    if (line.startsWith("T") && !line.includes("C")) {
-      const toolMatch = /^T(\d+)/i.exec(line);
-      if (toolMatch) {
-        currentTool = toolMatch[1];
-      }
-      continue;
+    // End of program
+    if (line === "M30" || line === "M00") break;
+
+    handleLine(line.toUpperCase(), state);
+  }
+
+  return {
+    name,
+    holes: state.holes,
+    slots: state.slots,
+  };
+}
+
+/**
+ * Comments carry no commands, but many CAM tools state the coordinate
+ * format there, e.g. KiCad ";FORMAT={3:3/ absolute / metric / suppress
+ * trailing zeros}" and Altium ";FILE_FORMAT=2:5".
+ */
+function handleComment(line: string, state: DrillParserState) {
+  const fmt = /FORMAT\s*=\s*\{?\s*(\d)\s*:\s*(\d)/i.exec(line);
+  if (fmt) {
+    state.fmtInt = parseInt(fmt[1], 10);
+    state.fmtDec = parseInt(fmt[2], 10);
+    state.formatSeen = true;
+  }
+
+  if (/suppress trailing zeros/i.test(line)) state.zeros = "LZ";
+  else if (/suppress leading zeros/i.test(line)) state.zeros = "TZ";
+
+  if (/FORMAT\s*=\s*\{/i.test(line)) {
+    if (/\bmetric\b/i.test(line)) setUnits(state, 1.0);
+    else if (/\binch\b/i.test(line)) setUnits(state, 25.4);
+  }
+
+  // X2 style: "; #@! TF.FileFunction,NonPlated,1,2,NPTH"
+  const fileFunction = /TF\.FileFunction,(NonPlated|Plated)\b/i.exec(line);
+  if (fileFunction) {
+    state.filePlating = fileFunction[1].toLowerCase() === "plated";
+  }
+
+  // KiCad: ";TYPE=PLATED", ";TYPE=NON_PLATED" or ";TYPE=MIXED"
+  const type = /TYPE\s*=\s*(NON_PLATED|PLATED|MIXED)/i.exec(line);
+  if (type) {
+    const t = type[1].toUpperCase();
+    state.filePlating = t === "MIXED" ? null : t === "PLATED";
+  }
+
+  // KiCad: "; #@! TA.AperFunction,NonPlated,NPTH,ComponentDrill" before
+  // the tool it describes
+  const aperFunction = /TA\.AperFunction,(NonPlated|Plated)\b/i.exec(line);
+  if (aperFunction) {
+    state.pendingToolPlating = aperFunction[1].toLowerCase() === "plated";
+  }
+
+  // Altium: ";Holesize 1 = 35.0 Tolerance = ... NON_PLATED MILS ..."
+  const holesize = /Holesize\s*(\d+)\s*=.*\b(NON_PLATED|PLATED)\b/i.exec(line);
+  if (holesize) {
+    state.toolPlating.set(
+      parseInt(holesize[1], 10),
+      holesize[2].toUpperCase() === "PLATED"
+    );
+  }
+}
+
+/**
+ * Plating stated by the file name, or null when it says nothing.
+ */
+function platingFromFileName(name: string): boolean | null {
+  const base = (name.split("/").pop() || name).toLowerCase();
+  if (/npth|non[-_ ]?plated|unplated/.test(base)) return false;
+  if (/pth|plated/.test(base)) return true;
+  return null;
+}
+
+function handleLine(line: string, state: DrillParserState) {
+  if (line === "M48") {
+    state.inHeader = true;
+    return;
+  }
+
+  if (line === "%" || line === "M95") {
+    state.inHeader = false;
+    return;
+  }
+
+  // Units, optionally with zeros and digit format: METRIC,TZ,000.000
+  const units = /^(METRIC|INCH)(?:,(LZ|TZ))?(?:,(0*)\.(0*))?/.exec(line);
+  if (units) {
+    setUnits(state, units[1] === "METRIC" ? 1.0 : 25.4);
+    if (units[2]) state.zeros = units[2] as ZeroMode;
+    if (units[3] !== undefined && units[4] !== undefined) {
+      state.fmtInt = units[3].length;
+      state.fmtDec = units[4].length;
+      state.formatSeen = true;
     }
+    return;
+  }
 
-    // Coordinate line, very naive:
-    // X012345Y067890
-    // X1.234Y5.678
-    if (line[0] === "X" || line.includes("X")) {
-      const coordMatch = /X([\-0-9.]+)Y([\-0-9.]+)/i.exec(line);
-      if (!coordMatch) {
-        continue;
-      }
-
-      const xRaw = coordMatch[1];
-      const yRaw = coordMatch[2];
-      const xVal = parseFloat(xRaw);
-      const yVal = parseFloat(yRaw);
-
-      if (Number.isNaN(xVal) || Number.isNaN(yVal)) {
-        continue;
-      }
-
-      const diameter =
-        currentTool && toolDiameters.has(currentTool)
-          ? toolDiameters.get(currentTool)!
-          : 0.6; // default fallback diameter
-
-      holes.push({
-        x: xVal,
-        y: yVal,
-        diameter,
-        plated: true, // default, later you can infer from file or layer
-      });
-      continue;
+  if (line === "M71") {
+    setUnits(state, 1.0);
+    return;
+  }
+  if (line === "M72") {
+    setUnits(state, 25.4);
+    return;
+  }
+
+  if (line.startsWith("ICI")) {
+    state.incremental = !line.includes("OFF");
+    return;
+  }
+
+  // Tool definition or selection: T1C0.3, T01F00S00C0.300, T1
+  const tool = /^T(\d+)(.*)$/.exec(line);
+  if (tool) {
+    handleTool(parseInt(tool[1], 10), tool[2], state);
+    return;
+  }
+
+  // Remaining header lines are machine settings (FMAT,2 / VER,1 / ATC,ON)
+  // that do not change the hole data
+  if (state.inHeader) {
+    if (!/^(FMAT|VER|DETECT|ATC|AFS|BLKD|SBK|TCST|OM48|G9[01])/.test(line)) {
+      report(state, "warning", "UNSUPPORTED_COMMAND", `Unsupported header line "${line}" ignored`);
+      return;
+    }
+    if (!line.startsWith("G9")) return;
+  }
+
+  // Canned slot: start coordinates, G85, end coordinates
+  const canned = /^(.*)G85(.*)$/.exec(line);
+  if (canned) {
+    const startCoords = canned[1] ? readCoordinates(canned[1], state) : {};
+    const endCoords = readCoordinates(canned[2], state);
+    if (!startCoords || !endCoords) return;
+
+    const start = moveTo(startCoords, state);
+    const end = moveTo(endCoords, state);
+    addSlot(start, end, state);
+    return;
+  }
+
+  // Leading G / M codes, possibly combined with coordinates ("G91X100")
+  let rest = line;
+  let routeWord = false;
+  let code = /^([GM])(\d+)/.exec(rest);
+  while (code) {
+    const n = parseInt(code[2], 10);
+    if (code[1] === "G" && n <= 3) routeWord = true;
+    if (!applyCode(code[1], n, state)) return;
+    rest = rest.slice(code[0].length);
+    code = /^([GM])(\d+)/.exec(rest);
+  }
+  if (!rest) return;
+
+  // Repeat: R<count> followed by the step between hits
+  const repeat = /^R(\d+)(.*)$/.exec(rest);
+  if (repeat) {
+    const count = parseInt(repeat[1], 10);
+    const step = readCoordinates(repeat[2], state);
+    if (!step) return;
+    for (let i = 0; i < count; i++) {
+      state.x += step.x ?? 0;
+      state.y += step.y ?? 0;
+      addHole(state);
     }
+    return;
+  }
+
+  const coords = readCoordinates(rest, state);
+  if (!coords) return;
+
+  if (state.routing) {
+    // With the tool up only G00 to G03 keep route mode, a bare coordinate
+    // is a hit from a file that went back to drilling without G05
+    if (state.toolDown || routeWord) {
+      routeTo(coords, state);
+      return;
+    }
+    state.routing = false;
+  }
 
-    // Everything else is ignored for now
+  moveTo(coords, state);
+  addHole(state);
+}
+
+/**
+ * Update the current position from X / Y words and return it.
+ */
+function moveTo(coords: Coordinates, state: DrillParserState): Vec2 {
+  if (state.incremental) {
+    state.x += coords.x ?? 0;
+    state.y += coords.y ?? 0;
+  } else {
+    if (coords.x !== undefined) state.x = coords.x;
+    if (coords.y !== undefined) state.y = coords.y;
   }
+  return { x: state.x, y: state.y };
+}
 
+/**
+ * Route mode motion. With the tool down, the path cut from the previous
+ * point becomes slots, one per line segment; arcs are tessellated.
+ */
+function routeTo(coords: Coordinates, state: DrillParserState) {
+  const from = { x: state.x, y: state.y };
+  const to = moveTo(coords, state);
+
+  if (!state.toolDown || state.routeMotion === "move") return;
+
+  if (state.routeMotion === "linear") {
+    addSlot(from, to, state);
+    return;
+  }
+
+  const clockwise = state.routeMotion === "clockwise";
+  const center = routeArcCenter(from, to, coords, clockwise);
+  if (!center) {
+    addSlot(from, to, state);
+    return;
+  }
+
+  const points = tessellateArc(from, to, center, clockwise);
+  for (let i = 1; i < points.length; i++) {
+    addSlot(points[i - 1], points[i], state);
+  }
+}
+
+/**
+ * Center of a routed arc, from I / J offsets or from the A radius. With a
+ * radius, the center giving the shorter arc is used.
+ */
+function routeArcCenter(
+  from: Vec2,
+  to: Vec2,
+  coords: Coordinates,
+  clockwise: boolean
+): Vec2 | null {
+  if (coords.i !== undefined || coords.j !== undefined) {
+    return { x: from.x + (coords.i ?? 0), y: from.y + (coords.j ?? 0) };
+  }
+
+  const r = coords.a;
+  if (r === undefined || r <= 0) return null;
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const chord = Math.hypot(dx, dy);
+  if (chord === 0 || chord > 2 * r + 1e-9) return null;
+
+  // Center lies on the chord bisector, on the side that makes the arc run
+  // in the requested direction
+  const h = Math.sqrt(Math.max(0, r * r - (chord * chord) / 4));
+  const mx = (from.x + to.x) / 2;
+  const my = (from.y + to.y) / 2;
+  const sign = clockwise ? -1 : 1;
   return {
-    name,
-    holes,
+    x: mx - (sign * h * dy) / chord,
+    y: my + (sign * h * dx) / chord,
+  };
+}
+
+/**
+ * Header lines define tools, body lines select them. A body line with a
+ * diameter (common in files without header) does both.
+ */
+function handleTool(toolNumber: number, params: string, state: DrillParserState) {
+  const diameter = /C([\d.]+)/.exec(params);
+  if (diameter) {
+    const d = parseFloat(diameter[1]);
+    if (!Number.isNaN(d)) {
+      state.tools.set(toolNumber, d * state.unitScale);
+    }
+  }
+
+  if (diameter && state.pendingToolPlating !== null) {
+    state.toolPlating.set(toolNumber, state.pendingToolPlating);
+    state.pendingToolPlating = null;
+  }
+
+  if (!state.inHeader) {
+    state.currentTool = toolNumber === 0 ? null : toolNumber;
+  }
+}
+
+/**
+ * Apply a G or M code. Returns false when the rest of the line must be
+ * skipped.
+ */
+function applyCode(letter: string, code: number, state: DrillParserState): boolean {
+  if (letter === "G") {
+    switch (code) {
+      case 90:
+        state.incremental = false;
+        return true;
+      case 91:
+        state.incremental = true;
+        return true;
+      case 5: // drill mode
+        state.routing = false;
+        state.toolDown = false;
+        return true;
+      case 0:
+        state.routing = true;
+        state.routeMotion = "move";
+        return true;
+      case 1:
+        state.routeMotion = "linear";
+        return true;
+      case 2:
+        state.routeMotion = "clockwise";
+        return true;
+      case 3:
+        state.routeMotion = "counterclockwise";
+        return true;
+      default:
+        report(state, "warning", "UNSUPPORTED_COMMAND", `Unsupported drill code G${code} ignored`);
+        return false;
+    }
+  }
+
+  switch (code) {
+    case 15: // plunge
+      state.toolDown = true;
+      return true;
+    case 16: // retract
+      state.toolDown = false;
+      return true;
+    case 17: // end of route
+    case 30: // end of program
+      state.routing = false;
+      state.toolDown = false;
+      return true;
+    case 47: // operator message
+    case 0:
+    case 1:
+      return false;
+    default:
+      report(state, "warning", "UNSUPPORTED_COMMAND", `Unsupported drill code M${code} ignored`);
+      return false;
+  }
+}
+
+interface Coordinates {
+  x?: number;
+  y?: number;
+  i?: number; // arc center offsets in route mode
+  j?: number;
+  a?: number; // arc radius in route mode
+}
+
+/**
+ * Read X / Y (and route mode I / J / A) words. Missing axes are left
+ * undefined so the caller can keep the modal value. Returns null when the
+ * text is not coordinate data.
+ */
+function readCoordinates(
+  text: string,
+  state: DrillParserState
+): Coordinates | null {
+  if (!/^(?:[XYIJA][+\-]?[\d.]*)+$/.test(text)) {
+    report(state, "warning", "UNKNOWN_COMMAND", `Unknown drill command "${text}" ignored`);
+    return null;
+  }
+
+  const x = /X([+\-]?[\d.]+)/.exec(text);
+  const y = /Y([+\-]?[\d.]+)/.exec(text);
+
+  if (!state.unitsSeen) {
+    // Report once, then go on with the inch default
+    report(state, "warning", "MISSING_UNITS", "Coordinates before METRIC / INCH, assuming inch");
+    state.unitsSeen = true;
+  }
+
+  const coords: Coordinates = {
+    x: x ? decodeCoord(x[1], state) : undefined,
+    y: y ? decodeCoord(y[1], state) : undefined,
   };
+
+  const i = /I([+\-]?[\d.]+)/.exec(text);
+  const j = /J([+\-]?[\d.]+)/.exec(text);
+  const a = /A([+\-]?[\d.]+)/.exec(text);
+  if (i) coords.i = decodeCoord(i[1], state);
+  if (j) coords.j = decodeCoord(j[1], state);
+  if (a) coords.a = decodeCoord(a[1], state);
+
+  return coords;
+}
+
+/**
+ * Decode a coordinate into mm. Values with a decimal point are literal,
+ * others use the digit format and zero mode.
+ * Example, metric 3.3:
+ *   TZ "1500"    -> 1.500 mm
+ *   LZ "0015"    -> 1.500 mm ("001500" with the omitted trailing zeros)
+ */
+function decodeCoord(numStr: string, state: DrillParserState): number {
+  const sign = numStr.startsWith("-") ? -1 : 1;
+  let digits = numStr.replace(/[+\-]/g, "");
+
+  if (digits.includes(".")) {
+    const v = parseFloat(digits);
+    return Number.isNaN(v) ? 0 : sign * v * state.unitScale;
+  }
+
+  if (state.zeros === "LZ") {
+    digits = digits.padEnd(state.fmtInt + state.fmtDec, "0");
+  }
+
+  const n = parseInt(digits, 10);
+  if (Number.isNaN(n)) return 0;
+
+  return sign * (n / Math.pow(10, state.fmtDec)) * state.unitScale;
+}
+
+function addHole(state: DrillParserState) {
+  state.holes.push({
+    x: state.x,
+    y: state.y,
+    diameter: currentDiameter(state),
+    plated: currentPlating(state),
+  });
+}
+
+function addSlot(start: Vec2, end: Vec2, state: DrillParserState) {
+  state.slots.push({
+    start,
+    end,
+    width: currentDiameter(state),
+    plated: currentPlating(state),
+  });
+}
+
+function currentPlating(state: DrillParserState): boolean {
+  const tool = state.currentTool !== null ? state.toolPlating.get(state.currentTool) : undefined;
+  return tool ?? state.filePlating ?? true;
+}
+
+/**
+ * Diameter of the selected tool, or a default with a diagnostic.
+ */
+function currentDiameter(state: DrillParserState): number {
+  let diameter = DEFAULT_DIAMETER_MM;
+
+  const tool = state.currentTool;
+  if (tool !== null && state.tools.has(tool)) {
+    diameter = state.tools.get(tool)!;
+  } else {
+    report(
+      state,
+      "warning",
+      "UNDEFINED_TOOL",
+      tool !== null
+        ? `Tool T${tool} has no diameter, using ${diameter} mm`
+        : `Hole before any tool selection, using ${diameter} mm`
+    );
+  }
+
+  return diameter;
+}
+
+/**
+ * Switch units. Without an explicit digit format, use the usual default
+ * for the unit: 2.4 for inch, 3.3 for metric.
+ */
+function setUnits(state: DrillParserState, unitScale: number) {
+  state.unitScale = unitScale;
+  state.unitsSeen = true;
+  if (!state.formatSeen) {
+    state.fmtInt = unitScale === 1.0 ? 3 : 2;
+    state.fmtDec = unitScale === 1.0 ? 3 : 4;
+  }
+}
+
+function report(
+  state: DrillParserState,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string
+) {
+  state.reporter.report(severity, code, message, state.offset);
 }
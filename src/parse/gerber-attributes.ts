@@ -0,0 +1,94 @@
+// src/parse/gerber-attributes.ts
+
+/**
+ * Gerber X2 attributes (%TF, %TA, %TO, %TD).
+ *
+ * Attributes are metadata: they never change the image. File attributes
+ * (TF) describe the whole file, aperture attributes (TA) are attached to
+ * the apertures defined after them and object attributes (TO) to the
+ * objects created after them. TD removes attributes from the aperture and
+ * object dictionaries.
+ *
+ * Values are kept as the raw comma separated fields, with escape sequences
+ * decoded, e.g. %TF.FileFunction,Copper,L1,Top*% gives
+ * { ".FileFunction": ["Copper", "L1", "Top"] }.
+ */
+
+/**
+ * Attribute dictionary. Standard attributes are listed for convenience,
+ * user attributes (names without a leading dot) are allowed as well.
+ */
+export interface GerberAttributes {
+  // File attributes
+  ".FileFunction"?: string[];    // e.g. Copper,L1,Top / Soldermask,Bot
+  ".FilePolarity"?: string[];    // Positive / Negative
+  ".SameCoordinates"?: string[];
+  ".CreationDate"?: string[];
+  ".GenerationSoftware"?: string[];
+  ".ProjectId"?: string[];
+  ".Part"?: string[];
+  ".MD5"?: string[];
+
+  // Aperture attributes
+  ".AperFunction"?: string[];    // e.g. ViaPad, SMDPad,CuDef, Conductor
+  ".DrillTolerance"?: string[];
+  ".FlashText"?: string[];
+
+  // Object attributes
+  ".N"?: string[];               // net names
+  ".P"?: string[];               // refdes, pin number[, pin name]
+  ".C"?: string[];               // component refdes
+  [name: string]: string[] | undefined;
+}
+
+export type GerberAttributeCommand =
+  | { kind: "TF" | "TA" | "TO"; name: string; values: string[] }
+  | { kind: "TD"; name: string | null }; // null deletes all
+
+/**
+ * Parse the body of an attribute command, without percent signs and "*".
+ * Returns null when the body is not a well formed attribute command.
+ */
+export function parseAttributeCommand(body: string): GerberAttributeCommand | null {
+  const kind = body.slice(0, 2);
+  const rest = body.slice(2);
+
+  if (kind === "TD") {
+    return { kind, name: rest ? rest.split(",")[0] : null };
+  }
+
+  if (kind !== "TF" && kind !== "TA" && kind !== "TO") return null;
+
+  const fields = rest.split(",");
+  const name = fields[0];
+  if (!name) return null;
+
+  return { kind, name, values: fields.slice(1).map(decodeAttributeValue) };
+}
+
+/**
+ * Return a copy of attrs without the named attribute, or without any
+ * attribute when name is null. Dictionaries are treated as immutable so
+ * primitives can share them.
+ */
+export function withoutAttribute(
+  attrs: GerberAttributes,
+  name: string | null
+): GerberAttributes {
+  if (name === null) return {};
+  if (!(name in attrs)) return attrs;
+
+  const copy: GerberAttributes = { ...attrs };
+  delete copy[name];
+  return copy;
+}
+
+/**
+ * Decode \uXXXX escapes, which X2 uses for reserved characters such as
+ * "," and "*" inside values.
+ */
+function decodeAttributeValue(value: string): string {
+  return value.replace(/\\u([0-9a-fA-F]{4})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+}
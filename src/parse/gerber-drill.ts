@@ -0,0 +1,75 @@
+// src/parse/gerber-drill.ts
+
+import type { DrillHole, DrillSlot, Vec2 } from "../types/pcb-model";
+import { tessellateArc } from "../utils/math";
+import type { ParsedDrillData } from "./drill-parser";
+import type { GerberApertureTransform, GerberPrimitives } from "./gerber-parser";
+
+/**
+ * Drill and route data written as Gerber (X2 .FileFunction Plated or
+ * NonPlated), converted to the same representation as Excellon files.
+ *
+ * Flashes are holes with the aperture diameter, tracks and arcs are slots
+ * with the aperture width. Regions and clear objects have no meaning in
+ * drill data and are skipped.
+ */
+export function drillDataFromGerber(
+  name: string,
+  primitives: GerberPrimitives,
+  plated: boolean
+): ParsedDrillData {
+  const holes: DrillHole[] = [];
+  const slots: DrillSlot[] = [];
+
+  collect(primitives, (p) => p, plated, holes, slots);
+
+  return { name, holes, slots };
+}
+
+function collect(
+  primitives: GerberPrimitives,
+  place: (p: Vec2) => Vec2,
+  plated: boolean,
+  holes: DrillHole[],
+  slots: DrillSlot[]
+) {
+  for (const f of primitives.flashes) {
+    if (f.polarity !== "dark") continue;
+    const p = place(f.position);
+    holes.push({ x: p.x, y: p.y, diameter: f.diameterMm, plated });
+  }
+
+  for (const t of primitives.tracks) {
+    if (t.polarity !== "dark") continue;
+    slots.push({ start: place(t.start), end: place(t.end), width: t.width, plated });
+  }
+
+  for (const a of primitives.arcs) {
+    if (a.polarity !== "dark") continue;
+    const points = tessellateArc(a.start, a.end, a.center, a.clockwise);
+    for (let i = 1; i < points.length; i++) {
+      slots.push({
+        start: place(points[i - 1]),
+        end: place(points[i]),
+        width: a.width,
+        plated,
+      });
+    }
+  }
+
+  for (const block of primitives.blocks) {
+    if (block.polarity !== "dark") continue;
+    for (const offset of block.offsets) {
+      const inner = (p: Vec2) => {
+        const q = applyTransform(p, block.transform);
+        return place({ x: q.x + offset.x, y: q.y + offset.y });
+      };
+      collect(block.primitives, inner, plated, holes, slots);
+    }
+  }
+}
+
+function applyTransform(p: Vec2, m?: GerberApertureTransform): Vec2 {
+  if (!m) return p;
+  return { x: m.a * p.x + m.b * p.y, y: m.c * p.x + m.d * p.y };
+}
@@ -0,0 +1,84 @@
+// src/parse/gerber-lexer.ts
+
+/**
+ * Tokenizer for Gerber RS-274X / X2 files.
+ *
+ * Gerber syntax does not depend on line breaks: every data word ends with
+ * "*", and extended commands are wrapped in "%" and may hold several words
+ * ("%FSLAX26Y26*MOMM*%") or span many lines (%AM macros). The lexer cuts
+ * the file along those delimiters only, so whole files on one line and
+ * blocks spread over several lines read the same.
+ *
+ * Line breaks are dropped everywhere and whitespace around a word is
+ * trimmed. Offsets point into the original content, so callers can map
+ * them back to a line and column.
+ */
+
+export interface GerberWord {
+  text: string;   // word without the closing "*"
+  offset: number; // position of the first character in the source
+}
+
+export type GerberToken =
+  | ({ kind: "word" } & GerberWord)
+  | {
+      kind: "extended";
+      words: GerberWord[]; // words between the percent signs
+      offset: number;      // position of the opening "%"
+    };
+
+export function tokenizeGerber(content: string): GerberToken[] {
+  const tokens: GerberToken[] = [];
+
+  let extended: { words: GerberWord[]; offset: number } | null = null;
+  let wordStart = -1;
+
+  const flushWord = (end: number) => {
+    if (wordStart < 0) return;
+
+    const text = content.slice(wordStart, end).replace(/[\r\n]/g, "").trim();
+    const offset = wordStart;
+    wordStart = -1;
+
+    if (!text) return;
+    if (extended) {
+      extended.words.push({ text, offset });
+    } else {
+      tokens.push({ kind: "word", text, offset });
+    }
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+
+    if (c === "%") {
+      // A word left without "*" is still kept, most readers tolerate it
+      flushWord(i);
+      if (extended) {
+        tokens.push({ kind: "extended", ...extended });
+        extended = null;
+      } else {
+        extended = { words: [], offset: i };
+      }
+      continue;
+    }
+
+    if (c === "*") {
+      flushWord(i);
+      continue;
+    }
+
+    if (wordStart < 0) {
+      if (c === " " || c === "\t" || c === "\r" || c === "\n") continue;
+      wordStart = i;
+    }
+  }
+
+  // Unterminated input: keep what was read
+  flushWord(content.length);
+  if (extended) {
+    tokens.push({ kind: "extended", ...extended });
+  }
+
+  return tokens;
+}
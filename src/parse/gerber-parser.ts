@@ -2,43 +2,137 @@
 
 import type { Vec2 } from "../types/pcb-model";
 import type { LayerRole } from "../io/file-classifier";
+import type { ParseOptions } from "../types/options";
+import type { DiagnosticCode, DiagnosticSeverity } from "../types/diagnostics";
+import { createDiagnosticReporter, type DiagnosticReporter } from "../utils/logger";
+import { arcSweepAngle, tessellateArc } from "../utils/math";
+import { tokenizeGerber } from "./gerber-lexer";
+import {
+  parseAttributeCommand,
+  withoutAttribute,
+  type GerberAttributes,
+} from "./gerber-attributes";
+import {
+  parseApertureMacro,
+  instantiateMacro,
+  scaleMacroPrimitives,
+  type ApertureMacro,
+  type MacroPrimitive,
+} from "./aperture-macro";
 
 /**
  * Primitive types used by the geometry pipeline. These are what
  * polygonizer.ts consumes.
  */
 
-export interface GerberPrimitiveTrack {
+/**
+ * Polarity an object was drawn with (%LPD / %LPC).
+ * Dark objects add to the image, clear objects erase what is below them.
+ */
+export type GerberPolarity = "dark" | "clear";
+
+/**
+ * Fields shared by every primitive.
+ *
+ * polarityRun numbers the runs of consecutive objects drawn with the same
+ * polarity. Objects within a run can be merged in any order, runs must be
+ * applied in increasing order.
+ */
+export interface GerberPrimitiveBase {
+  polarity: GerberPolarity;
+  polarityRun: number;
+
+  // X2 aperture and object attributes active when the object was drawn.
+  // Objects drawn under the same attributes share one dictionary.
+  attributes?: GerberAttributes;
+}
+
+/**
+ * Linear transform applied to an aperture shape around its origin,
+ * x' = a*x + b*y, y' = c*x + d*y. It combines %LM, %LR and %LS with the
+ * legacy image mirroring (%MI) and axis selection (%AS). Only set when it
+ * is not the identity.
+ */
+export interface GerberApertureTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+/**
+ * Outline of the non circular aperture a track was drawn with, so the
+ * polygonizer can sweep the real shape instead of a round pen.
+ */
+export interface GerberTrackAperture {
+  shape: "R" | "O" | "P";
+  widthMm?: number;      // for R / O
+  heightMm?: number;     // for R / O
+  diameterMm?: number;   // for P, circumscribed circle
+  vertices?: number;     // for P
+  rotationDeg?: number;  // for P
+}
+
+export interface GerberPrimitiveTrack extends GerberPrimitiveBase {
   start: Vec2;
   end: Vec2;
   width: number; // in mm
+  aperture?: GerberTrackAperture; // only set for R / O / P apertures
+  transform?: GerberApertureTransform; // applied to aperture
 }
 
-export interface GerberPrimitiveArc {
+export interface GerberPrimitiveArc extends GerberPrimitiveBase {
   start: Vec2;
   end: Vec2;
   center: Vec2;
   clockwise: boolean;
   width: number;
+  aperture?: GerberTrackAperture; // only set for R / O / P apertures
+  transform?: GerberApertureTransform; // applied to aperture
 }
 
-export interface GerberPrimitiveFlash {
+export interface GerberPrimitiveFlash extends GerberPrimitiveBase {
   position: Vec2;
   diameterMm: number; // actual aperture diameter in mm
 }
 
 const DEFAULT_FLASH_DIAM_MM = 0.8; // fallback if aperture has no size
 
-export interface GerberPrimitiveRegion {
+export interface GerberPrimitiveRegion extends GerberPrimitiveBase {
   boundary: Vec2[];
   holes: Vec2[][];
 }
 
+/**
+ * A group of primitives placed one or more times, from step and repeat
+ * (%SR) or from flashing a block aperture (%AB).
+ *
+ * The content is stored once, in its own coordinates, and only copied at
+ * polygonization time so panels do not multiply memory while parsing.
+ * Polarity runs inside the content are numbered from 0; they are applied
+ * starting at this block's polarityRun. A block flashed with clear polarity
+ * inverts the polarity of its content.
+ */
+export interface GerberPrimitiveBlock extends GerberPrimitiveBase {
+  primitives: GerberPrimitives;
+  offsets: Vec2[]; // one translation per placed copy, in mm
+  transform?: GerberApertureTransform; // applied to content before offsets
+}
+
+/**
+ * Image polarity (%IPPOS / %IPNEG, deprecated). A negative image means the
+ * objects describe where there is no material.
+ */
+export type GerberImagePolarity = "positive" | "negative";
+
 export interface GerberPrimitives {
   tracks: GerberPrimitiveTrack[];
   arcs: GerberPrimitiveArc[];
   flashes: GerberPrimitiveFlash[];
   regions: GerberPrimitiveRegion[];
+  blocks: GerberPrimitiveBlock[];
+  imagePolarity?: GerberImagePolarity; // only set on the top level output
+  fileAttributes?: GerberAttributes;   // %TF, only set on the top level output
 }
 
 /**
@@ -53,266 +147,572 @@ interface Aperture {
   diameterMm?: number;   // effective diameter (for traces / circular pads)
   widthMm?: number;      // for R / O
   heightMm?: number;     // for R / O
+  vertices?: number;     // for P
+  rotationDeg?: number;  // for P
+  holeDiameterMm?: number; // optional round hole in C / R / O / P
+  macro?: MacroPrimitive[]; // evaluated macro body when shape is "macro"
+  block?: GerberPrimitives; // content when shape is "block" (%AB)
+  blockRunCount?: number;   // number of polarity runs used by the block
+  attributes?: GerberAttributes; // %TA dictionary when it was defined
 }
 
 export interface GerberPrimitiveFlash {
   position: Vec2;
   diameterMm: number;    // keep for circular and general “size”
-  shape: string;         // "C" | "R" | "O" | ...
+  shape: string;         // "C" | "R" | "O" | "P" | "macro" | ...
   widthMm?: number;      // for R / O
   heightMm?: number;     // for R / O
+  vertices?: number;     // for P, diameterMm is the circumscribed circle
+  rotationDeg?: number;  // for P
+  holeDiameterMm?: number; // optional round hole through the flash
+  macro?: MacroPrimitive[]; // for "macro", relative to position
+  transform?: GerberApertureTransform; // applied before moving to position
 }
 
+/**
+ * Interpolation mode set by G01 / G02 / G03.
+ */
+type InterpolationMode = "linear" | "clockwise" | "counterclockwise";
+
+/**
+ * Quadrant mode set by G74 (single) / G75 (multi).
+ */
+type QuadrantMode = "single" | "multi";
+
+/**
+ * What opened a block: %ABD<code> or %SR with its repeat offsets.
+ */
+type BlockHeader =
+  | { kind: "AB"; code: number }     // aperture code being defined
+  | { kind: "SR"; offsets: Vec2[] }; // translations of the repeated copies
+
+/**
+ * An open %AB or %SR block. Primitives are collected into their own
+ * GerberPrimitives until the block is closed.
+ */
+type OpenBlock = BlockHeader & {
+  parent: GerberPrimitives;   // collector to restore when the block closes
+  firstRun: number;           // polarityRun when the block was opened
+  parentPolarity: GerberPolarity;
+};
+
+/**
+ * Zero suppression from the format statement: "leading" (L) omits leading
+ * zeros, "trailing" (T, deprecated) omits trailing zeros and "none" (D,
+ * deprecated) keeps all digits.
+ */
+type ZeroSuppression = "leading" | "trailing" | "none";
+
 /**
  * Internal parser state
  */
 interface ParserState {
   unitScale: number;   // file units -> mm (1 for mm, 25.4 for inch)
-  fmtInt: number;      // FS int digits
-  fmtDec: number;      // FS dec digits
+  fmtXInt: number;     // FS X int digits
+  fmtXDec: number;     // FS X dec digits
+  fmtYInt: number;     // FS Y int digits
+  fmtYDec: number;     // FS Y dec digits
+  zeroSuppression: ZeroSuppression;
+  incremental: boolean; // FS..I or G91: X/Y are relative to the current point
 
   x: number;           // current X in mm
   y: number;           // current Y in mm
 
+  interpolation: InterpolationMode;
+  quadrantMode: QuadrantMode;
+
+  polarity: GerberPolarity;
+  polarityRun: number;
+
+  // Aperture transformations (%LM, %LR, %LS)
+  mirrorX: boolean;    // LMX / LMXY: x -> -x
+  mirrorY: boolean;    // LMY / LMXY: y -> -y
+  rotationDeg: number; // LR, counterclockwise
+  scale: number;       // LS
+
+  // Deprecated image level commands
+  imagePolarity: GerberImagePolarity; // IP
+  axisSwap: boolean;   // AS: AYBX swaps the X and Y data axes
+  imageMirrorA: boolean; // MI: A1 mirrors X
+  imageMirrorB: boolean; // MI: B1 mirrors Y
+  imageScaleA: number; // SF
+  imageScaleB: number;
+  imageOffsetA: number; // OF, in mm
+  imageOffsetB: number;
+
   apertures: Map<number, Aperture>;
   currentAperture: Aperture | null;
+  macros: Map<string, ApertureMacro>;
 
   // Region handling
   inRegion: boolean;
   regionPaths: Vec2[][]; // all contours in current region
   currentPath: Vec2[];   // the contour currently being built
 
-  tracks: GerberPrimitiveTrack[];
-  arcs: GerberPrimitiveArc[];
-  flashes: GerberPrimitiveFlash[];
-  regions: GerberPrimitiveRegion[];
+  // Primitives are written here, the top level output or an open block
+  out: GerberPrimitives;
+  openBlocks: OpenBlock[];
+
+  // X2 attribute dictionaries, replaced rather than mutated
+  fileAttributes: GerberAttributes;
+  apertureAttributes: GerberAttributes;
+  objectAttributes: GerberAttributes;
+  attributeCache: {
+    aperture: GerberAttributes | undefined;
+    object: GerberAttributes;
+    merged: GerberAttributes | undefined;
+  } | null;
+
+  // Diagnostics
+  reporter: DiagnosticReporter;
+  offset: number;       // source offset of the word being handled
+  formatSeen: boolean;  // %FS read
+  unitsSeen: boolean;   // %MO, G70 or G71 read
+  coordinatesSeen: boolean;
 }
 
 /**
  * Parse a Gerber file into drawing primitives.
  *
  * This is a practical, not spec complete parser:
- * - Handles %FS, %MO, %AD for simple circular apertures (C)
+ * - Handles %FS, %MO, %AD for standard apertures and %AM aperture macros
  * - Handles D01 (draw), D02 (move), D03 (flash)
- * - Handles G36/G37 for filled regions with multiple contours
- * - Ignores arcs (G02/G03) for now
+ * - Handles G01/G02/G03 interpolation with G74/G75 quadrant modes
+ * - Handles G36/G37 for filled regions with multiple contours, arcs in
+ *   region contours are tessellated into the contour
+ * - Handles %SR step and repeat and %AB block apertures, including nested
+ *   blocks, as GerberPrimitiveBlock references
  *
  * It is good enough to visualize traces and pads for many KiCad/JLC style Gerbers.
  */
 export function parseGerberFile(
   name: string,
   content: string,
-  _role: LayerRole | string
+  _role: LayerRole | string,
+  options: ParseOptions = {}
 ): GerberPrimitives {
   const state: ParserState = {
     unitScale: 1.0,
-    fmtInt: 2,
-    fmtDec: 4,
+    fmtXInt: 2,
+    fmtXDec: 4,
+    fmtYInt: 2,
+    fmtYDec: 4,
+    zeroSuppression: "leading",
+    incremental: false,
     x: 0,
     y: 0,
+    interpolation: "linear",
+    quadrantMode: "single",
+    polarity: "dark",
+    polarityRun: 0,
+    mirrorX: false,
+    mirrorY: false,
+    rotationDeg: 0,
+    scale: 1,
+    imagePolarity: "positive",
+    axisSwap: false,
+    imageMirrorA: false,
+    imageMirrorB: false,
+    imageScaleA: 1,
+    imageScaleB: 1,
+    imageOffsetA: 0,
+    imageOffsetB: 0,
     apertures: new Map(),
     currentAperture: null,
+    macros: new Map(),
     inRegion: false,
     regionPaths: [],
     currentPath: [],
-    tracks: [],
-    arcs: [],
-    flashes: [],
-    regions: [],
+    out: emptyPrimitives(),
+    openBlocks: [],
+    reporter: createDiagnosticReporter(
+      name,
+      content,
+      options.diagnostics ?? [],
+      options.strict
+    ),
+    fileAttributes: {},
+    apertureAttributes: {},
+    objectAttributes: {},
+    attributeCache: null,
+    offset: 0,
+    formatSeen: false,
+    unitsSeen: false,
+    coordinatesSeen: false,
   };
 
-  const lines = content.split(/\r?\n/);
+  let ended = false;
 
-  for (const rawLine of lines) {
-    let line = rawLine.trim();
-    if (!line) continue;
+  for (const token of tokenizeGerber(content)) {
+    if (token.kind === "extended") {
+      if (!token.words.length) continue;
+
+      // A macro owns every word of its block, other blocks may hold
+      // several independent commands (%FSLAX26Y26*MOMM*%)
+      if (token.words[0].text.startsWith("AM")) {
+        state.offset = token.words[0].offset;
+        handleParameterBlock(token.words.map((w) => w.text).join("*"), state);
+      } else {
+        for (const word of token.words) {
+          state.offset = word.offset;
+          handleParameterBlock(word.text, state);
+        }
+      }
+      continue;
+    }
 
-    // Comments
-    if (line.startsWith("G04")) continue;
+    const word = token.text;
+    state.offset = token.offset;
 
-    // Parameter block: % ... *%
-    if (line.startsWith("%") && line.endsWith("%")) {
-      handleParameterBlock(line, state);
+    // Comments. Older X2 writers put attributes in "G04 #@! TF..." comments.
+    if (word.startsWith("G04")) {
+      const x2 = /^G04\s*#@!\s*(T[FAOD].*)$/.exec(word);
+      if (x2) handleParameterBlock(x2[1], state);
       continue;
     }
 
-    // Usual commands end with *
-    if (line.endsWith("*")) {
-      line = line.slice(0, -1);
+    // End of file (M02), or the deprecated program stop (M00)
+    if (/^M0*[02]$/.test(word)) {
+      ended = true;
+      break;
     }
 
-    handleCommandLine(line, state);
+    // Optional stop (M01), deprecated and without effect
+    if (/^M0*1$/.test(word)) continue;
+
+    handleCommandLine(word, state);
+  }
+
+  state.offset = content.length;
+
+  if (!ended) {
+    report(state, "warning", "MISSING_END", "File does not end with M02");
   }
 
   // If file ended with an open region, finalize it similarly to G37.
   if (state.inRegion) {
-    if (state.currentPath.length >= 3) {
-      state.regionPaths.push(state.currentPath);
-    }
-    if (state.regionPaths.length > 0) {
-      state.regions.push({
-        boundary: state.regionPaths[0],
-        holes: state.regionPaths.slice(1),
-      });
-    }
-    state.inRegion = false;
-    state.regionPaths = [];
-    state.currentPath = [];
+    report(state, "warning", "UNCLOSED_REGION", "Region (G36) is not closed by G37");
+    finishRegion(state);
   }
 
-  return {
-    tracks: state.tracks,
-    arcs: state.arcs,
-    flashes: state.flashes,
-    regions: state.regions,
-  };
+  // Close blocks left open at the end of the file
+  if (state.openBlocks.length > 0) {
+    report(state, "warning", "UNCLOSED_BLOCK", "Step and repeat or block aperture is not closed");
+  }
+  while (state.openBlocks.length > 0) {
+    closeBlock(state);
+  }
+
+  if (state.imagePolarity === "negative") {
+    state.out.imagePolarity = "negative";
+  }
+  if (Object.keys(state.fileAttributes).length > 0) {
+    state.out.fileAttributes = state.fileAttributes;
+  }
+
+  return state.out;
 }
 
 /**
- * Handle parameter blocks like:
+ * Handle one extended command, the text of a word between percent signs
+ * without its delimiters. Examples, in file notation:
  * - %FSLAX24Y24*%
  * - %MOMM*%
  * - %MOIN*%
  * - %ADD10C,0.300*%
+ * - %AMName*...*% aperture macro definitions
+ * - %LPD*% / %LPC*% load polarity
+ * - %SRX3Y2I5.0J4.0*% ... %SR*% step and repeat
+ * - %ABD10*% ... %AB*% block aperture definitions
+ * - %LMX*%, %LR90*%, %LS0.5*% aperture transformations
+ * - deprecated %IPNEG*%, %MIA1B0*%, %SFA1B1*%, %OFA0B0*%, %ASAYBX*%
  */
-function handleParameterBlock(block: string, state: ParserState) {
-  // Strip outer percent signs
-  let body = block;
-  if (body.startsWith("%")) body = body.slice(1);
-  if (body.endsWith("%")) body = body.slice(0, -1);
-  if (body.endsWith("*")) body = body.slice(0, -1);
-
+function handleParameterBlock(body: string, state: ParserState) {
   if (body.startsWith("FS")) {
-    // Format Statement, example: FSLAX24Y24
-    const m = /FS..X(\d)(\d)Y(\d)(\d)/.exec(body);
+    // Format Statement, example: FSLAX24Y24, FSTIX35Y26, FSLAN2X34Y34
+    const m = /^FS([LTD]?)([AI]?)(?:N\d)?(?:G\d)?X(\d)(\d)Y(\d)(\d)/.exec(body);
     if (m) {
-      const ix = parseInt(m[1], 10);
-      const dx = parseInt(m[2], 10);
-      // const iy = parseInt(m[3], 10);
-      const dy = parseInt(m[4], 10);
-      state.fmtInt = ix;
-      state.fmtDec = dx; // assume X and Y same decimal places
-      // we ignore separate Y format for now
+      state.zeroSuppression =
+        m[1] === "T" ? "trailing" : m[1] === "D" ? "none" : "leading";
+      state.incremental = m[2] === "I";
+      state.fmtXInt = parseInt(m[3], 10);
+      state.fmtXDec = parseInt(m[4], 10);
+      state.fmtYInt = parseInt(m[5], 10);
+      state.fmtYDec = parseInt(m[6], 10);
+      state.formatSeen = true;
+    } else {
+      report(state, "error", "INVALID_FORMAT", `Cannot read format statement "${body}"`);
     }
     return;
   }
 
   if (body.startsWith("MO")) {
     // Units, MOMM or MOIN
-    const oldScale = state.unitScale;
-    let newScale = oldScale;
-
     if (body.includes("MOMM")) {
-      newScale = 1.0;
+      setUnitScale(state, 1.0);
+      state.unitsSeen = true;
     } else if (body.includes("MOIN")) {
-      newScale = 25.4;
+      setUnitScale(state, 25.4);
+      state.unitsSeen = true;
+    } else {
+      report(state, "error", "UNKNOWN_COMMAND", `Unknown unit "${body}"`);
+    }
+    return;
+  }
+
+  if (body.startsWith("LP")) {
+    const polarity: GerberPolarity = body.startsWith("LPC") ? "clear" : "dark";
+    if (polarity !== state.polarity) {
+      state.polarity = polarity;
+      state.polarityRun++;
     }
+    return;
+  }
 
-    if (newScale !== oldScale) {
-      const factor = newScale / oldScale;
+  if (body.startsWith("LM")) {
+    const mode = body.slice(2);
+    state.mirrorX = mode === "X" || mode === "XY";
+    state.mirrorY = mode === "Y" || mode === "XY";
+    return;
+  }
+
+  if (body.startsWith("LR")) {
+    const v = parseFloat(body.slice(2));
+    state.rotationDeg = Number.isNaN(v) ? 0 : v;
+    return;
+  }
+
+  if (body.startsWith("LS")) {
+    const v = parseFloat(body.slice(2));
+    state.scale = Number.isNaN(v) || v <= 0 ? 1 : v;
+    return;
+  }
+
+  if (body.startsWith("IP")) {
+    state.imagePolarity = body.startsWith("IPNEG") ? "negative" : "positive";
+    return;
+  }
 
-      for (const ap of state.apertures.values()) {
-        if (ap.diameterMm !== undefined) ap.diameterMm *= factor;
-        if (ap.widthMm !== undefined) ap.widthMm *= factor;
-        if (ap.heightMm !== undefined) ap.heightMm *= factor;
+  if (body.startsWith("AS")) {
+    state.axisSwap = body.startsWith("ASAYBX");
+    return;
+  }
+
+  if (body.startsWith("MI")) {
+    const a = /A([01])/.exec(body);
+    const b = /B([01])/.exec(body);
+    state.imageMirrorA = a ? a[1] === "1" : false;
+    state.imageMirrorB = b ? b[1] === "1" : false;
+    return;
+  }
+
+  if (body.startsWith("SF")) {
+    const a = /A([+\-]?[\d.]+)/.exec(body);
+    const b = /B([+\-]?[\d.]+)/.exec(body);
+    state.imageScaleA = a ? parseFloat(a[1]) || 1 : 1;
+    state.imageScaleB = b ? parseFloat(b[1]) || 1 : 1;
+    return;
+  }
+
+  if (body.startsWith("OF")) {
+    const a = /A([+\-]?[\d.]+)/.exec(body);
+    const b = /B([+\-]?[\d.]+)/.exec(body);
+    state.imageOffsetA = a ? (parseFloat(a[1]) || 0) * state.unitScale : 0;
+    state.imageOffsetB = b ? (parseFloat(b[1]) || 0) * state.unitScale : 0;
+    return;
+  }
+
+  if (body.startsWith("SR")) {
+    // A new SR implicitly closes the previous one
+    const top = state.openBlocks[state.openBlocks.length - 1];
+    if (top && top.kind === "SR") {
+      closeBlock(state);
+    }
+
+    const m = /^SRX(\d+)Y(\d+)I([+\-]?[\d.]+)J([+\-]?[\d.]+)/.exec(body);
+    if (!m) return; // "%SR*%" only closes
+
+    const nx = Math.max(1, parseInt(m[1], 10));
+    const ny = Math.max(1, parseInt(m[2], 10));
+    const dx = parseLength(m[3], state) ?? 0;
+    const dy = parseLength(m[4], state) ?? 0;
+    if (nx === 1 && ny === 1) return;
+
+    const offsets: Vec2[] = [];
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        offsets.push(toImageVector(state, { x: i * dx, y: j * dy }));
       }
+    }
 
-      state.unitScale = newScale;
+    openBlock(state, { kind: "SR", offsets });
+    return;
+  }
+
+  if (body.startsWith("AB")) {
+    const m = /^ABD(\d+)/.exec(body);
+    if (m) {
+      openBlock(state, { kind: "AB", code: parseInt(m[1], 10) });
+      return;
+    }
+
+    const top = state.openBlocks[state.openBlocks.length - 1];
+    if (top && top.kind === "AB") {
+      closeBlock(state);
+    }
+    return;
+  }
+
+  if (body.startsWith("AM")) {
+    const macro = parseApertureMacro(body);
+    if (macro) {
+      state.macros.set(macro.name, macro);
+    } else {
+      report(state, "error", "INVALID_MACRO", "Cannot read aperture macro definition");
     }
     return;
   }
 
   if (body.startsWith("AD")) {
-    const m = /AD(D?)(\d+)([A-Z]),?([0-9.Xx]*)/.exec(body);
-    if (!m) return;
-
-    const code = parseInt(m[2], 10);
-    const shape = m[3]; // do not narrow here
-    const params = m[4] ?? "";
-
-    let diameterMm: number | undefined;
-    let widthMm: number | undefined;
-    let heightMm: number | undefined;
-
-    if (params) {
-      const parts = params.split(/[Xx]/);
-
-      // You can use your existing parser or the more robust one from before.
-      const sizeXmm = parts[0] ? parseFloat(parts[0]) * state.unitScale : undefined;
-      const sizeYmm = parts[1] ? parseFloat(parts[1]) * state.unitScale : undefined;
-
-      if (shape === "C") {
-        diameterMm = sizeXmm;
-      } else if (shape === "R" || shape === "O") {
-        widthMm = sizeXmm;
-        heightMm = sizeYmm;
-
-        // For traces we still want a reasonable width, so keep an effective diameter too.
-        if (sizeXmm !== undefined && sizeYmm !== undefined) {
-          diameterMm = Math.min(sizeXmm, sizeYmm);  // use the narrow side as “diameter”
-        } else {
-          diameterMm = sizeXmm ?? sizeYmm;
-        }
-      } else {
-        // Other shapes - keep first param as a generic diameter
-        diameterMm = sizeXmm ?? sizeYmm;
+    const m = /^ADD?(\d+)([^,]+),?(.*)$/.exec(body);
+    if (!m) {
+      report(state, "error", "INVALID_APERTURE", `Cannot read aperture definition "${body}"`);
+      return;
+    }
+
+    const code = parseInt(m[1], 10);
+    const template = m[2].trim();
+    const params = m[3] ?? "";
+
+    if (template.length > 1 || !"CROP".includes(template)) {
+      const macro = state.macros.get(template);
+      if (!macro) {
+        report(
+          state,
+          "error",
+          "UNDEFINED_MACRO",
+          `Aperture D${code} uses undefined macro "${template}"`
+        );
+        return;
       }
+
+      const values = params
+        ? params.split(/[Xx]/).map((v) => parseFloat(v) || 0)
+        : [];
+
+      state.apertures.set(code, {
+        code,
+        shape: "macro",
+        macro: instantiateMacro(macro, values, state.unitScale),
+        attributes: state.apertureAttributes,
+      });
+      return;
     }
 
-    const ap: Aperture = {
-      code,
-      shape,
-      diameterMm,
-      widthMm,
-      heightMm,
+    const shape = template;
+
+    // Standard apertures, modifiers separated by X:
+    //   C,<diameter>[X<hole>]
+    //   R,<width>X<height>[X<hole>]
+    //   O,<width>X<height>[X<hole>]
+    //   P,<outer diameter>X<vertices>[X<rotation>[X<hole>]]
+    const words = params ? params.split(/[Xx]/) : [];
+    const value = (i: number): number | undefined => {
+      const v = i < words.length ? parseFloat(words[i]) : NaN;
+      return Number.isNaN(v) ? undefined : v;
     };
+    const length = (i: number): number | undefined =>
+      i < words.length ? parseLength(words[i], state) : undefined;
+
+    const ap: Aperture = { code, shape, attributes: state.apertureAttributes };
+
+    if (shape === "C") {
+      ap.diameterMm = length(0);
+      ap.holeDiameterMm = length(1);
+    } else if (shape === "R" || shape === "O") {
+      const sizeXmm = length(0);
+      const sizeYmm = length(1) ?? sizeXmm;
+      ap.widthMm = sizeXmm;
+      ap.heightMm = sizeYmm;
+      ap.holeDiameterMm = length(2);
+
+      // For traces we still want a reasonable width, so keep an effective diameter too.
+      if (sizeXmm !== undefined && sizeYmm !== undefined) {
+        ap.diameterMm = Math.min(sizeXmm, sizeYmm);  // use the narrow side as “diameter”
+      } else {
+        ap.diameterMm = sizeXmm ?? sizeYmm;
+      }
+    } else if (shape === "P") {
+      ap.diameterMm = length(0);
+      const vertices = value(1);
+      ap.vertices =
+        vertices !== undefined ? Math.max(3, Math.min(12, Math.round(vertices))) : 3;
+      ap.rotationDeg = value(2) ?? 0;
+      ap.holeDiameterMm = length(3);
+    }
+
+    if (ap.holeDiameterMm !== undefined && !(ap.holeDiameterMm > 0)) {
+      delete ap.holeDiameterMm;
+    }
 
     state.apertures.set(code, ap);
     return;
   }
 
-  // ignore other parameter blocks
+  if (/^T[FAOD]/.test(body)) {
+    const cmd = parseAttributeCommand(body);
+    if (!cmd) {
+      report(state, "warning", "UNKNOWN_COMMAND", `Cannot read attribute "${body}"`);
+      return;
+    }
+
+    if (cmd.kind === "TF") {
+      state.fileAttributes = { ...state.fileAttributes, [cmd.name]: cmd.values };
+    } else if (cmd.kind === "TA") {
+      state.apertureAttributes = { ...state.apertureAttributes, [cmd.name]: cmd.values };
+    } else if (cmd.kind === "TO") {
+      state.objectAttributes = { ...state.objectAttributes, [cmd.name]: cmd.values };
+    } else {
+      state.apertureAttributes = withoutAttribute(state.apertureAttributes, cmd.name);
+      state.objectAttributes = withoutAttribute(state.objectAttributes, cmd.name);
+    }
+    return;
+  }
+
+  // Names carry no image information
+  if (/^(IN|LN)/.test(body)) return;
+
+  report(
+    state,
+    "warning",
+    "UNSUPPORTED_COMMAND",
+    `Unsupported extended command "${body.slice(0, 2)}" ignored`
+  );
 }
 
 /**
- * Handle normal command lines that are not parameter blocks.
+ * Handle one data word (a command outside percent blocks, without "*").
  * Handles:
+ * - G01 / G02 / G03 interpolation modes, G74 / G75 quadrant modes
+ * - deprecated G70 / G71 units and G90 / G91 absolute / incremental notation
  * - G36 / G37
- * - D01 / D02 / D03 with X/Y coordinates
+ * - D01 / D02 / D03 with X/Y coordinates and I/J arc offsets
  * - Aperture selection D10, D11, etc
  */
 function handleCommandLine(line: string, state: ParserState) {
-  // Region start / end
-  if (line === "G36") {
-    state.inRegion = true;
-    state.regionPaths = [];
-    state.currentPath = [];
-    return;
-  }
-  if (line === "G37") {
-    // Finish current contour, if any
-    if (state.currentPath.length >= 3) {
-      state.regionPaths.push(state.currentPath);
-    }
-
-    state.inRegion = false;
-
-    if (state.regionPaths.length > 0) {
-      // First contour is boundary, rest are holes
-      state.regions.push({
-        boundary: state.regionPaths[0],
-        holes: state.regionPaths.slice(1),
-      });
-    }
-
-    state.regionPaths = [];
-    state.currentPath = [];
-    return;
+  // Leading G codes, either alone ("G02") or combined with a coordinate
+  // word ("G02X100Y200I50J0D01")
+  let gMatch = /^G0*(\d+)/.exec(line);
+  while (gMatch) {
+    applyGCode(parseInt(gMatch[1], 10), state);
+    line = line.slice(gMatch[0].length);
+    gMatch = /^G0*(\d+)/.exec(line);
   }
+  if (!line) return;
 
   // Look for D code at end of line
   let dCode: number | null = null;
-  const dMatch = /D0?(\d{1,3})$/.exec(line);
+  const dMatch = /D0*(\d+)$/.exec(line);
   if (dMatch) {
     dCode = parseInt(dMatch[1], 10);
     line = line.slice(0, line.length - dMatch[0].length); // strip Dxx
@@ -323,24 +723,56 @@ function handleCommandLine(line: string, state: ParserState) {
     const ap = state.apertures.get(dCode);
     if (ap) {
       state.currentAperture = ap;
+    } else {
+      report(state, "error", "UNDEFINED_APERTURE", `Aperture D${dCode} is not defined`);
     }
     return;
   }
 
+  // D00 and D04 to D09 are reserved
+  if (dCode !== null && (dCode === 0 || dCode > 3)) {
+    report(state, "warning", "UNKNOWN_COMMAND", `Unknown D code D${dCode} ignored`);
+    return;
+  }
+
+  // Whatever is left must be coordinate data
+  if (!/^([XYIJ][+\-]?[\d.]+)*$/.test(line)) {
+    report(state, "warning", "UNKNOWN_COMMAND", `Unknown command "${line}" ignored`);
+    return;
+  }
+
+  if (line && !state.coordinatesSeen) {
+    state.coordinatesSeen = true;
+    if (!state.formatSeen) {
+      report(state, "warning", "MISSING_FORMAT", "Coordinates before %FS, assuming 2.4 leading zero omission");
+    }
+    if (!state.unitsSeen) {
+      report(state, "warning", "MISSING_UNITS", "Coordinates before %MO, assuming mm");
+    }
+  }
+
   // Parse coordinates
-  const coordMatchX = /X([+\-]?\d+)/.exec(line);
-  const coordMatchY = /Y([+\-]?\d+)/.exec(line);
+  const coordMatchX = /X([+\-]?[\d.]+)/.exec(line);
+  const coordMatchY = /Y([+\-]?[\d.]+)/.exec(line);
+  const coordMatchI = /I([+\-]?[\d.]+)/.exec(line);
+  const coordMatchJ = /J([+\-]?[\d.]+)/.exec(line);
 
   let newX = state.x;
   let newY = state.y;
 
   if (coordMatchX) {
-    newX = decodeCoord(coordMatchX[1], state);
+    const v = decodeCoord(coordMatchX[1], "x", state);
+    newX = state.incremental ? state.x + v : v;
   }
   if (coordMatchY) {
-    newY = decodeCoord(coordMatchY[1], state);
+    const v = decodeCoord(coordMatchY[1], "y", state);
+    newY = state.incremental ? state.y + v : v;
   }
 
+  // I/J are always offsets, whatever the coordinate notation
+  const offI = coordMatchI ? decodeCoord(coordMatchI[1], "x", state) : 0;
+  const offJ = coordMatchJ ? decodeCoord(coordMatchJ[1], "y", state) : 0;
+
   // If no D code, just move modal position
   if (dCode === null) {
     state.x = newX;
@@ -359,7 +791,19 @@ function handleCommandLine(line: string, state: ParserState) {
         // first segment of this contour: start at previous position
         state.currentPath.push({ x: prevX, y: prevY });
       }
-      state.currentPath.push({ x: newX, y: newY });
+
+      const start = { x: prevX, y: prevY };
+      const end = { x: newX, y: newY };
+      const arc = resolveArc(start, end, offI, offJ, state);
+      if (arc) {
+        // Skip the first point, it is already the last point of the contour
+        const pts = tessellateArc(start, end, arc.center, arc.clockwise);
+        for (let i = 1; i < pts.length; i++) {
+          state.currentPath.push(pts[i]);
+        }
+      } else {
+        state.currentPath.push(end);
+      }
     } else if (dCode === 2) {
       // D02: finish current contour, move without drawing
       if (state.currentPath.length >= 3) {
@@ -368,7 +812,8 @@ function handleCommandLine(line: string, state: ParserState) {
       state.currentPath = [];
       // newX/newY becomes the new current point; contour starts on next D01
     } else {
-      // D03 or others are not allowed in region mode; ignore safely
+      // D03 is not allowed in region mode
+      report(state, "error", "FLASH_IN_REGION", "D03 flash inside a region ignored");
     }
 
     state.x = newX;
@@ -383,6 +828,7 @@ function handleCommandLine(line: string, state: ParserState) {
   if (dCode === 1) {
     // Draw
     if (!state.currentAperture) {
+      report(state, "error", "UNDEFINED_APERTURE", "D01 draw without a selected aperture ignored");
       state.x = newX;
       state.y = newY;
       return;
@@ -392,11 +838,55 @@ function handleCommandLine(line: string, state: ParserState) {
         ? state.currentAperture.diameterMm
         : 0.2;
 
-    state.tracks.push({
-      start: { x: prevX, y: prevY },
-      end: { x: newX, y: newY },
-      width,
-    });
+    const start = { x: prevX, y: prevY };
+    const end = { x: newX, y: newY };
+    const arc = resolveArc(start, end, offI, offJ, state);
+
+    const attributes = activeAttributes(state, state.currentAperture);
+    const trackAperture = toTrackAperture(state.currentAperture);
+    const transform = trackAperture ? currentApertureTransform(state) : undefined;
+
+    if (arc) {
+      const primitive: GerberPrimitiveArc = {
+        start: toImage(state, start),
+        end: toImage(state, end),
+        center: toImage(state, arc.center),
+        clockwise: imageFlipsOrientation(state) ? !arc.clockwise : arc.clockwise,
+        width: width * state.scale,
+        polarity: state.polarity,
+        polarityRun: state.polarityRun,
+      };
+      if (trackAperture) {
+        // Only circles may draw arcs, sweep the real shape anyway
+        report(
+          state,
+          "warning",
+          "NON_CIRCULAR_ARC",
+          `Arc drawn with ${trackAperture.shape} aperture D${state.currentAperture.code}`
+        );
+        primitive.aperture = trackAperture;
+        if (transform) primitive.transform = transform;
+      }
+      if (attributes) primitive.attributes = attributes;
+
+      state.out.arcs.push(primitive);
+    } else {
+      const track: GerberPrimitiveTrack = {
+        start: toImage(state, start),
+        end: toImage(state, end),
+        width: width * state.scale,
+        polarity: state.polarity,
+        polarityRun: state.polarityRun,
+      };
+
+      if (trackAperture) {
+        track.aperture = trackAperture;
+        if (transform) track.transform = transform;
+      }
+      if (attributes) track.attributes = attributes;
+
+      state.out.tracks.push(track);
+    }
 
     state.x = newX;
     state.y = newY;
@@ -411,66 +901,503 @@ function handleCommandLine(line: string, state: ParserState) {
   }
 
   if (dCode === 3) {
-    if (state.currentAperture) {
-      const ap = state.currentAperture;
-
+    const ap = state.currentAperture;
+    if (ap && ap.block) {
+      // Block aperture: reference the block content at this position and
+      // reserve polarity runs for it so later objects stay on top
+      const runCount = ap.blockRunCount ?? 1;
+      const ref: GerberPrimitiveBlock = {
+        primitives: ap.block,
+        offsets: [toImage(state, { x: newX, y: newY })],
+        polarity: state.polarity,
+        polarityRun: state.polarityRun + 1,
+      };
+      const transform = currentApertureTransform(state);
+      if (transform) ref.transform = transform;
+      const attributes = activeAttributes(state, ap);
+      if (attributes) ref.attributes = attributes;
+
+      state.out.blocks.push(ref);
+      state.polarityRun += runCount + 1;
+    } else if (ap) {
       const d =
         ap.diameterMm !== undefined
           ? ap.diameterMm
           : DEFAULT_FLASH_DIAM_MM;
 
       const flash: GerberPrimitiveFlash = {
-        position: { x: newX, y: newY },
+        position: toImage(state, { x: newX, y: newY }),
         diameterMm: d,
         shape: ap.shape,
+        polarity: state.polarity,
+        polarityRun: state.polarityRun,
       };
 
       if (ap.widthMm !== undefined) flash.widthMm = ap.widthMm;
       if (ap.heightMm !== undefined) flash.heightMm = ap.heightMm;
+      if (ap.vertices !== undefined) flash.vertices = ap.vertices;
+      if (ap.rotationDeg !== undefined) flash.rotationDeg = ap.rotationDeg;
+      if (ap.holeDiameterMm !== undefined) flash.holeDiameterMm = ap.holeDiameterMm;
+      if (ap.macro) flash.macro = ap.macro;
 
-      state.flashes.push(flash);
+      const transform = currentApertureTransform(state);
+      if (transform) flash.transform = transform;
+      const attributes = activeAttributes(state, ap);
+      if (attributes) flash.attributes = attributes;
+
+      state.out.flashes.push(flash);
+    } else {
+      report(state, "error", "UNDEFINED_APERTURE", "D03 flash without a selected aperture ignored");
     }
     state.x = newX;
     state.y = newY;
+  }
+}
+
+/**
+ * Attributes for an object drawn now with the given aperture: the
+ * aperture's own attributes overlaid with the current object attributes.
+ * Consecutive objects with the same inputs get the same dictionary.
+ */
+function activeAttributes(
+  state: ParserState,
+  ap: Pick<Aperture, "attributes"> | null
+): GerberAttributes | undefined {
+  const aperture = ap?.attributes;
+  const object = state.objectAttributes;
+
+  const cache = state.attributeCache;
+  if (cache && cache.aperture === aperture && cache.object === object) {
+    return cache.merged;
+  }
+
+  let merged: GerberAttributes | undefined = { ...aperture, ...object };
+  if (Object.keys(merged).length === 0) merged = undefined;
+
+  state.attributeCache = { aperture, object, merged };
+  return merged;
+}
+
+function report(
+  state: ParserState,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string
+) {
+  state.reporter.report(severity, code, message, state.offset);
+}
+
+/**
+ * Close the region being built (G37, or end of file) and emit it.
+ */
+function finishRegion(state: ParserState) {
+  // Finish current contour, if any
+  if (state.currentPath.length >= 3) {
+    state.regionPaths.push(state.currentPath);
+  }
+
+  state.inRegion = false;
+
+  if (state.regionPaths.length > 0) {
+    const paths = state.regionPaths.map((path) =>
+      path.map((p) => toImage(state, p))
+    );
+
+    // First contour is boundary, rest are holes
+    const region: GerberPrimitiveRegion = {
+      boundary: paths[0],
+      holes: paths.slice(1),
+      polarity: state.polarity,
+      polarityRun: state.polarityRun,
+    };
+
+    // Regions have no aperture, they take the current aperture attributes
+    const attributes = activeAttributes(state, { attributes: state.apertureAttributes });
+    if (attributes) region.attributes = attributes;
+
+    state.out.regions.push(region);
+  }
+
+  state.regionPaths = [];
+  state.currentPath = [];
+}
+
+/**
+ * Map a point from file coordinates to image coordinates, applying the
+ * deprecated axis select, scale factor, mirror image and offset commands.
+ */
+function toImage(state: ParserState, p: Vec2): Vec2 {
+  const v = toImageVector(state, p);
+  return { x: v.x + state.imageOffsetA, y: v.y + state.imageOffsetB };
+}
+
+/**
+ * Linear part of toImage, for displacements such as step and repeat.
+ */
+function toImageVector(state: ParserState, p: Vec2): Vec2 {
+  let x = state.axisSwap ? p.y : p.x;
+  let y = state.axisSwap ? p.x : p.y;
+  x *= state.imageScaleA;
+  y *= state.imageScaleB;
+  if (state.imageMirrorA) x = -x;
+  if (state.imageMirrorB) y = -y;
+  return { x, y };
+}
+
+/**
+ * True when the image transform mirrors the plane, which turns clockwise
+ * arcs into counterclockwise ones.
+ */
+function imageFlipsOrientation(state: ParserState): boolean {
+  let flips = 0;
+  if (state.axisSwap) flips++;
+  if (state.imageMirrorA) flips++;
+  if (state.imageMirrorB) flips++;
+  if (state.imageScaleA < 0) flips++;
+  if (state.imageScaleB < 0) flips++;
+  return flips % 2 === 1;
+}
+
+/**
+ * Combined aperture transform for objects created now: mirror (LM), then
+ * rotate (LR), then scale (LS), then the image axis swap and mirroring.
+ * Returns undefined for the identity.
+ */
+function currentApertureTransform(
+  state: ParserState
+): GerberApertureTransform | undefined {
+  const mx = state.mirrorX ? -1 : 1;
+  const my = state.mirrorY ? -1 : 1;
+  const rad = (state.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(rad) * state.scale;
+  const sin = Math.sin(rad) * state.scale;
+
+  // scale * rotation * mirror
+  let a = cos * mx;
+  let b = -sin * my;
+  let c = sin * mx;
+  let d = cos * my;
+
+  // Image axis swap exchanges the output rows
+  if (state.axisSwap) {
+    [a, b, c, d] = [c, d, a, b];
+  }
+  if (state.imageMirrorA) {
+    a = -a;
+    b = -b;
+  }
+  if (state.imageMirrorB) {
+    c = -c;
+    d = -d;
+  }
+
+  const eps = 1e-12;
+  if (Math.abs(a - 1) < eps && Math.abs(b) < eps &&
+      Math.abs(c) < eps && Math.abs(d - 1) < eps) {
+    return undefined;
+  }
+  return { a, b, c, d };
+}
+
+function emptyPrimitives(): GerberPrimitives {
+  return { tracks: [], arcs: [], flashes: [], regions: [], blocks: [] };
+}
+
+/**
+ * Start collecting primitives into a new %AB or %SR block.
+ */
+function openBlock(state: ParserState, block: BlockHeader) {
+  state.openBlocks.push({
+    ...block,
+    parent: state.out,
+    firstRun: state.polarityRun,
+    parentPolarity: state.polarity,
+  });
+  state.out = emptyPrimitives();
+}
+
+/**
+ * Close the innermost open block. SR blocks are placed into the parent
+ * right away, AB blocks become an aperture that D03 flashes.
+ */
+function closeBlock(state: ParserState) {
+  const block = state.openBlocks.pop();
+  if (!block) return;
+
+  const content = state.out;
+  state.out = block.parent;
+
+  const runCount = rebasePolarityRuns(content, block.firstRun) + 1;
+
+  if (block.kind === "SR") {
+    // Content runs keep their place in the parent sequence
+    state.out.blocks.push({
+      primitives: content,
+      offsets: block.offsets,
+      polarity: "dark",
+      polarityRun: block.firstRun,
+    });
     return;
   }
 
+  state.apertures.set(block.code, {
+    code: block.code,
+    shape: "block",
+    block: content,
+    blockRunCount: runCount,
+    attributes: state.apertureAttributes,
+  });
+
+  // Polarity changes inside the definition do not leak out of it
+  state.polarity = block.parentPolarity;
+  state.polarityRun = Math.max(state.polarityRun, block.firstRun) + 1;
+}
+
+/**
+ * Renumber the polarity runs of block content so they start at 0.
+ * Returns the highest run index used.
+ */
+function rebasePolarityRuns(prims: GerberPrimitives, base: number): number {
+  let maxRun = 0;
+  const rebase = (p: GerberPrimitiveBase) => {
+    p.polarityRun = Math.max(0, p.polarityRun - base);
+    if (p.polarityRun > maxRun) maxRun = p.polarityRun;
+  };
+
+  prims.tracks.forEach(rebase);
+  prims.arcs.forEach(rebase);
+  prims.flashes.forEach(rebase);
+  prims.regions.forEach(rebase);
+
+  // Nested blocks also use the runs following their own start
+  for (const b of prims.blocks) {
+    rebase(b);
+    maxRun = Math.max(maxRun, b.polarityRun + highestPolarityRun(b.primitives));
+  }
+
+  return maxRun;
+}
+
+function highestPolarityRun(prims: GerberPrimitives): number {
+  let maxRun = 0;
+  const visit = (p: GerberPrimitiveBase) => {
+    if (p.polarityRun > maxRun) maxRun = p.polarityRun;
+  };
+
+  prims.tracks.forEach(visit);
+  prims.arcs.forEach(visit);
+  prims.flashes.forEach(visit);
+  prims.regions.forEach(visit);
+  for (const b of prims.blocks) {
+    maxRun = Math.max(maxRun, b.polarityRun + highestPolarityRun(b.primitives));
+  }
 
-  // Other D codes ignored for now
+  return maxRun;
 }
 
 /**
- * Decode an integer coordinate string using the FS format and unitScale.
- * Example:
- *   fmtInt = 2, fmtDec = 4, unitScale = 1 (mm)
- *   "12345" -> 1.2345 mm
+ * Describe the outline of an R / O / P aperture for swept tracks and arcs.
+ * Circular and macro apertures return undefined, tracks drawn with them
+ * are stroked with a round pen of the track width.
  */
-function decodeCoord(numStr: string, state: ParserState): number {
+function toTrackAperture(ap: Aperture): GerberTrackAperture | undefined {
+  if ((ap.shape === "R" || ap.shape === "O") &&
+      ap.widthMm !== undefined &&
+      ap.heightMm !== undefined) {
+    return { shape: ap.shape, widthMm: ap.widthMm, heightMm: ap.heightMm };
+  }
+  if (ap.shape === "P" && ap.diameterMm !== undefined) {
+    return {
+      shape: "P",
+      diameterMm: ap.diameterMm,
+      vertices: ap.vertices,
+      rotationDeg: ap.rotationDeg,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Apply a G code that changes parser modes.
+ * Deprecated no-op codes (G54, G55) are ignored, unknown ones reported.
+ */
+function applyGCode(code: number, state: ParserState) {
+  switch (code) {
+    case 1:
+      state.interpolation = "linear";
+      break;
+    case 2:
+      state.interpolation = "clockwise";
+      break;
+    case 3:
+      state.interpolation = "counterclockwise";
+      break;
+    case 74:
+      state.quadrantMode = "single";
+      break;
+    case 75:
+      state.quadrantMode = "multi";
+      break;
+    case 36:
+      state.inRegion = true;
+      state.regionPaths = [];
+      state.currentPath = [];
+      break;
+    case 37:
+      finishRegion(state);
+      break;
+    case 70:
+      setUnitScale(state, 25.4);
+      state.unitsSeen = true;
+      break;
+    case 71:
+      setUnitScale(state, 1.0);
+      state.unitsSeen = true;
+      break;
+    case 90:
+      state.incremental = false;
+      break;
+    case 91:
+      state.incremental = true;
+      break;
+    case 54:
+    case 55:
+      // Deprecated prefixes of D codes and flashes
+      break;
+    default:
+      report(state, "warning", "UNSUPPORTED_COMMAND", `Unsupported G code G${code} ignored`);
+      break;
+  }
+}
+
+/**
+ * Work out the arc center for a D01 in circular interpolation mode.
+ * Returns null when the current mode is linear, or when a single quadrant
+ * arc has coincident endpoints (which the spec defines as zero length).
+ *
+ * - Multi quadrant (G75): I/J are signed offsets from the start point.
+ * - Single quadrant (G74): I/J are unsigned, so we try all four sign
+ *   combinations and pick the center that gives a sweep of at most 90
+ *   degrees with the smallest start/end radius mismatch.
+ */
+function resolveArc(
+  start: Vec2,
+  end: Vec2,
+  offI: number,
+  offJ: number,
+  state: ParserState
+): { center: Vec2; clockwise: boolean } | null {
+  if (state.interpolation === "linear") return null;
+  const clockwise = state.interpolation === "clockwise";
+
+  if (state.quadrantMode === "multi") {
+    return {
+      center: { x: start.x + offI, y: start.y + offJ },
+      clockwise,
+    };
+  }
+
+  if (Math.abs(start.x - end.x) < 1e-9 && Math.abs(start.y - end.y) < 1e-9) {
+    return null;
+  }
+
+  const ai = Math.abs(offI);
+  const aj = Math.abs(offJ);
+  const maxSweep = Math.PI / 2 + 1e-6;
+
+  let best: Vec2 | null = null;
+  let bestErr = Infinity;
+  let bestInQuadrant = false;
+
+  for (const si of [1, -1]) {
+    for (const sj of [1, -1]) {
+      const c = { x: start.x + si * ai, y: start.y + sj * aj };
+      const err = Math.abs(
+        Math.hypot(start.x - c.x, start.y - c.y) -
+          Math.hypot(end.x - c.x, end.y - c.y)
+      );
+      const inQuadrant = arcSweepAngle(start, end, c, clockwise) <= maxSweep;
+
+      // A candidate inside the quadrant always beats one outside it
+      if (
+        (inQuadrant && !bestInQuadrant) ||
+        (inQuadrant === bestInQuadrant && err < bestErr)
+      ) {
+        best = c;
+        bestErr = err;
+        bestInQuadrant = inQuadrant;
+      }
+    }
+  }
+
+  return best ? { center: best, clockwise } : null;
+}
+
+/**
+ * Decode a coordinate string using the FS format of its axis and unitScale.
+ * Examples, with X format 2.4 in mm:
+ *   leading zero suppression  "12345"    -> 1.2345 mm
+ *   trailing zero suppression "012345"   -> 1.2345 mm
+ *   explicit decimal point    "1.2345"   -> 1.2345 mm
+ */
+function decodeCoord(numStr: string, axis: "x" | "y", state: ParserState): number {
   const sign = numStr.startsWith("-") ? -1 : 1;
-  const digits = numStr.replace(/[+\-]/g, "");
+  let digits = numStr.replace(/[+\-]/g, "");
+
+  // Some exporters write decimal numbers despite the format statement
+  if (digits.includes(".")) {
+    const v = parseFloat(digits);
+    return Number.isNaN(v) ? 0 : sign * v * state.unitScale;
+  }
+
+  const intDigits = axis === "x" ? state.fmtXInt : state.fmtYInt;
+  const decDigits = axis === "x" ? state.fmtXDec : state.fmtYDec;
+
+  // Without leading zeros the value is right aligned, which parseInt
+  // handles as is; without trailing zeros it is left aligned, so pad it
+  // back to the full width first.
+  if (state.zeroSuppression === "trailing") {
+    digits = digits.padEnd(intDigits + decDigits, "0");
+  }
+
   const n = parseInt(digits, 10);
   if (Number.isNaN(n)) return 0;
 
-  const scale = Math.pow(10, state.fmtDec);
+  const scale = Math.pow(10, decDigits);
   const val = (n / scale) * state.unitScale;
   return sign * val;
 }
 
-function parseApertureParam(raw: string, state: ParserState): number | undefined {
-  const s = raw.trim();
-  if (!s) return undefined;
+/**
+ * Parse an aperture or step and repeat length. These are always decimal
+ * numbers in the file unit, independent of the coordinate format.
+ */
+function parseLength(raw: string, state: ParserState): number | undefined {
+  const v = parseFloat(raw);
+  if (Number.isNaN(v)) return undefined;
+  return v * state.unitScale;
+}
 
-  // If it contains a decimal point, treat as a real value in current units
-  if (s.includes(".")) {
-    const v = parseFloat(s);
-    if (Number.isNaN(v)) return undefined;
-    return v * state.unitScale;
+/**
+ * Switch units (%MO, or the deprecated G70 / G71). Apertures are stored in
+ * mm as they are defined, so only those defined before the first unit
+ * command, under the mm default, are rescaled.
+ */
+function setUnitScale(state: ParserState, newScale: number) {
+  const oldScale = state.unitScale;
+  if (newScale === oldScale) return;
+
+  if (!state.unitsSeen) {
+    const factor = newScale / oldScale;
+
+    for (const ap of state.apertures.values()) {
+      if (ap.diameterMm !== undefined) ap.diameterMm *= factor;
+      if (ap.widthMm !== undefined) ap.widthMm *= factor;
+      if (ap.heightMm !== undefined) ap.heightMm *= factor;
+      if (ap.holeDiameterMm !== undefined) ap.holeDiameterMm *= factor;
+      if (ap.macro) scaleMacroPrimitives(ap.macro, factor);
+    }
   }
 
-  // Otherwise treat it like FS style integer (same fmtDec as coordinates)
-  const n = parseInt(s, 10);
-  if (Number.isNaN(n)) return undefined;
-
-  const scale = Math.pow(10, state.fmtDec);
-  return (n / scale) * state.unitScale;
+  state.unitScale = newScale;
 }
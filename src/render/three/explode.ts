@@ -0,0 +1,96 @@
+// src/render/three/explode.ts
+import * as THREE from "three";
+
+/**
+ * Order of the layers in the exploded view, outwards from the board body.
+ * Bottom side layers use the same steps downwards.
+ */
+const EXPLODE_STEPS: Array<[string, number]> = [
+  ["copper:", 1],
+  ["mask:", 2],
+  ["silk:", 3],
+  ["paste:", 4],
+];
+
+/**
+ * Steps of the meshes without a side: the FR4 body stays in place, the
+ * plated hole walls and slots lift out above the top side layers.
+ */
+const UNSIDED_STEPS: Record<string, number> = {
+  board: 0,
+  drills: 5,
+  slots: 6,
+};
+
+/**
+ * Exploded stackup over the per-layer meshes of a scene: each mesh moves
+ * along Z by its step times the spacing times the current factor, which
+ * eases towards the target on every update.
+ *
+ * Baked scenes merge copper, mask and legend into one surface per side,
+ * use per-layer meshes (useBakedLayers: false) to separate them.
+ */
+export class ExplodedView {
+  private layerMeshes: Map<string, THREE.Mesh>;
+  private spacing: number;
+  private halfThickness: number;
+  private target = 0;
+  private current = 0;
+  private layout = new Map<THREE.Mesh, { baseZ: number; step: number }>();
+
+  constructor(layerMeshes: Map<string, THREE.Mesh>, spacing: number, halfThickness: number) {
+    this.layerMeshes = layerMeshes;
+    this.spacing = spacing;
+    this.halfThickness = halfThickness;
+  }
+
+  setTarget(factor: number) {
+    this.target = Math.max(0, factor);
+  }
+
+  /**
+   * Move the factor towards the target, dt being the seconds since the
+   * last update, and place the meshes.
+   */
+  update(dt: number) {
+    if (this.current === this.target) return;
+
+    // Exponential ease, snapping when close enough
+    const delta = this.target - this.current;
+    this.current += delta * Math.min(1, dt * 6);
+    if (Math.abs(this.target - this.current) < 1e-3) {
+      this.current = this.target;
+    }
+
+    for (const [id, mesh] of this.layerMeshes.entries()) {
+      let layout = this.layout.get(mesh);
+      if (!layout) {
+        layout = { baseZ: mesh.position.z, step: explodeStep(id, mesh, this.halfThickness) };
+        this.layout.set(mesh, layout);
+      }
+      mesh.position.z = layout.baseZ + layout.step * this.spacing * this.current;
+    }
+  }
+}
+
+/**
+ * Signed step of a layer mesh in the exploded view: 0 for the board body,
+ * positive above it, negative below.
+ */
+function explodeStep(id: string, mesh: THREE.Mesh, halfThickness: number): number {
+  // Inner copper spreads in proportion to its depth in the board
+  if (id.startsWith("copper:inner:")) {
+    mesh.geometry.computeBoundingBox();
+    const box = mesh.geometry.boundingBox;
+    if (!box || box.isEmpty()) return 0; // empty layer
+    return (box.min.z + box.max.z) / 2 / halfThickness;
+  }
+
+  if (id in UNSIDED_STEPS) return UNSIDED_STEPS[id];
+
+  for (const [prefix, step] of EXPLODE_STEPS) {
+    if (id.startsWith(`${prefix}top`)) return step;
+    if (id.startsWith(`${prefix}bottom`)) return -step;
+  }
+  return 0;
+}
@@ -97,10 +97,12 @@ export async function addDefaultLights(
   scene.traverse((obj) => {
     const mesh = obj as THREE.Mesh;
     if (!mesh.isMesh) return;
-    const mat = mesh.material as any;
-    if (mat && "envMapIntensity" in mat) {
-      mat.envMapIntensity = intensity;
-      mat.needsUpdate = true;
+    const mats: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    for (const mat of mats) {
+      if (mat && "envMapIntensity" in mat) {
+        mat.envMapIntensity = intensity;
+        mat.needsUpdate = true;
+      }
     }
   });
 
@@ -11,6 +11,63 @@ export interface MaterialOptions {
   fr4NormalMap?: string;
 
   fr4TexScaleMm?: number;
+
+  // Board appearance, see PcbAppearance
+  soldermaskColor?: string;
+  silkscreenColor?: string;
+  surfaceFinish?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Appearance
+// -----------------------------------------------------------------------------
+
+const NAMED_BOARD_COLORS: Array<[string, number]> = [
+  ["green", 0x0aa64f],
+  ["red", 0xc0161d],
+  ["blue", 0x1b3f9e],
+  ["black", 0x151515],
+  ["white", 0xf2f2f2],
+  ["yellow", 0xe8c21a],
+  ["purple", 0x5b2a86],
+  ["orange", 0xe0661a],
+];
+
+/**
+ * Bare laminate, seen in mask openings without copper and in non plated
+ * holes.
+ */
+export const BARE_FR4_COLOR = 0xb9b48a;
+
+/**
+ * Resolve a mask or legend colour as written in job files ("Green",
+ * "Matte Black") or as a CSS hex string. Returns null when unknown.
+ */
+export function boardColorHex(name?: string): number | null {
+  if (!name) return null;
+  const lower = name.trim().toLowerCase();
+
+  const hex = /^#?([0-9a-f]{6})$/.exec(lower);
+  if (hex) return parseInt(hex[1], 16);
+
+  for (const [key, value] of NAMED_BOARD_COLORS) {
+    if (lower.includes(key)) return value;
+  }
+  return null;
+}
+
+/**
+ * Colour of exposed copper for a surface finish name. Returns null for
+ * unknown finishes.
+ */
+export function finishColorHex(finish?: string): number | null {
+  if (!finish) return null;
+  const lower = finish.toLowerCase();
+
+  if (/enig|enepig|gold|\bau\b/.test(lower)) return 0xd8af3a;
+  if (/hal|hasl|tin|\bsn\b|silver|immag|\bag\b/.test(lower)) return 0xc9cbcf;
+  if (/osp|bare|copper/.test(lower)) return 0xc07a46;
+  return null;
 }
 
 // -----------------------------------------------------------------------------
@@ -24,6 +81,7 @@ export function createFr4Material(opts: MaterialOptions = {}): THREE.Material {
     fr4ColorMap = "/textures/fr4_color.png",
     fr4NormalMap = "/textures/fr4_normal.png",
     fr4TexScaleMm = 10,
+    soldermaskColor,
   } = opts;
 
   const texLoader = new THREE.TextureLoader();
@@ -49,8 +107,8 @@ export function createFr4Material(opts: MaterialOptions = {}): THREE.Material {
     // Slight micro bump, but not overpowering
     normalScale: new THREE.Vector2(0.2, 0.2),
 
-    // Brighter, more saturated PCB green
-    color: new THREE.Color(0x0aa64f),
+    // Brighter, more saturated PCB green unless another mask colour is set
+    color: new THREE.Color(boardColorHex(soldermaskColor) ?? 0x0aa64f),
 
     // Glossier mask
     roughness: 0.35,
@@ -70,10 +128,10 @@ export function createFr4Material(opts: MaterialOptions = {}): THREE.Material {
 
 export function createCopperMaterial(
   side: "top" | "bottom",
-  _opts: MaterialOptions = {}
+  opts: MaterialOptions = {}
 ): THREE.Material {
   const mat = new THREE.MeshPhysicalMaterial({
-    color: new THREE.Color(0xd8af3a),
+    color: new THREE.Color(finishColorHex(opts.surfaceFinish) ?? 0xd8af3a),
     metalness: 1.0,
     roughness: 0.25,
     reflectivity: 0.9,
@@ -98,10 +156,10 @@ export function createCopperMaterial(
 
 export function createSoldermaskMaterial(
   side: "top" | "bottom",
-  _opts: MaterialOptions = {}
+  opts: MaterialOptions = {}
 ): THREE.Material {
   const mat = new THREE.MeshStandardMaterial({
-    color: new THREE.Color(0x004f1f),
+    color: new THREE.Color(boardColorHex(opts.soldermaskColor) ?? 0x004f1f),
     metalness: 0.0,
     roughness: 0.6,
     transparent: true,
@@ -124,10 +182,10 @@ export function createSoldermaskMaterial(
 
 export function createSilkscreenMaterial(
   side: "top" | "bottom",
-  _opts: MaterialOptions = {}
+  opts: MaterialOptions = {}
 ): THREE.Material {
   const mat = new THREE.MeshStandardMaterial({
-    color: new THREE.Color(0xffffff),
+    color: new THREE.Color(boardColorHex(opts.silkscreenColor) ?? 0xffffff),
     metalness: 0.0,
     roughness: 0.7,
   });
@@ -138,3 +196,43 @@ export function createSilkscreenMaterial(
 
   return mat;
 }
+
+// -----------------------------------------------------------------------------
+// Solder paste - matte grey deposits
+// -----------------------------------------------------------------------------
+
+export function createPasteMaterial(
+  _side: "top" | "bottom",
+  _opts: MaterialOptions = {}
+): THREE.Material {
+  return new THREE.MeshStandardMaterial({
+    color: new THREE.Color(0x9a9ea3),
+    metalness: 0.6,
+    roughness: 0.65,
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Hole walls - plated barrels show the finish, non plated ones bare FR4
+// -----------------------------------------------------------------------------
+
+export function createHoleWallMaterial(
+  plated: boolean,
+  opts: MaterialOptions = {}
+): THREE.Material {
+  if (plated) {
+    return new THREE.MeshStandardMaterial({
+      color: new THREE.Color(finishColorHex(opts.surfaceFinish) ?? 0xc07a46),
+      metalness: 0.9,
+      roughness: 0.35,
+      side: THREE.DoubleSide,
+    });
+  }
+
+  return new THREE.MeshStandardMaterial({
+    color: new THREE.Color(BARE_FR4_COLOR),
+    metalness: 0.0,
+    roughness: 0.85,
+    side: THREE.DoubleSide,
+  });
+}
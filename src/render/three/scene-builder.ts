@@ -6,13 +6,21 @@ import type {
   LayerGeometry,
   Polygon,
   DrillHole,
+  DrillSlot,
+  PcbAppearance,
 } from "../../types/pcb-model";
 import {
   createFr4Material,
   createCopperMaterial,
   createSoldermaskMaterial,
   createSilkscreenMaterial,
+  createHoleWallMaterial,
+  createPasteMaterial,
+  boardColorHex,
+  finishColorHex,
+  BARE_FR4_COLOR,
 } from "./materials";
+import { subtractPolygons } from "../../geometry/polygonizer";
 
 // Geometry types we control (match polygon-clipping runtime layout)
 type PcPoint = [number, number];
@@ -46,6 +54,13 @@ export interface SceneBuildOptions {
 
   useBakedLayers?: boolean;
   bakedTextureSize?: number;
+
+  // Legend colour, "white", "black", "yellow" or "#rrggbb". Overrides
+  // geometry.appearance.silkscreenColor.
+  silkscreenColor?: string;
+
+  // Show solder paste deposits on the pads, off by default
+  showPaste?: boolean;
 }
 
 export interface SceneBuildResult {
@@ -114,6 +129,11 @@ function extrudeLayerPolygons(
   return geom;
 }
 
+/**
+ * Barrels of all drill holes merged in one geometry. Plated holes come
+ * first and form group 0, non plated ones group 1, so the mesh can take a
+ * material per group.
+ */
 function createDrillHolesGeometry(
   drills: DrillHole[],
   thicknessUnits: number
@@ -133,8 +153,10 @@ function createDrillHolesGeometry(
   const indices: number[] = [];
 
   let vertexOffset = 0;
+  let platedIndexCount = 0;
 
-  for (const drill of drills) {
+  const ordered = drills.filter((d) => d.plated).concat(drills.filter((d) => !d.plated));
+  for (const drill of ordered) {
     const radiusUnits = mmToUnits(drill.diameter) / 2;
     const tmpGeom = geom.clone();
     tmpGeom.scale(radiusUnits, 1, radiusUnits);
@@ -161,15 +183,203 @@ function createDrillHolesGeometry(
     }
 
     vertexOffset += posAttr.count;
+    if (drill.plated) platedIndexCount = indices.length;
   }
 
   merged.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
   merged.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
   merged.setIndex(indices);
+  merged.addGroup(0, platedIndexCount, 0);
+  merged.addGroup(platedIndexCount, indices.length - platedIndexCount, 1);
 
   return merged;
 }
 
+/**
+ * Outline of a slot in mm: two half circles joined by straight sides.
+ */
+function slotOutlineMm(slot: DrillSlot, segmentsPerEnd = 8): { x: number; y: number }[] {
+  const r = slot.width / 2;
+  const theta = Math.atan2(slot.end.y - slot.start.y, slot.end.x - slot.start.x);
+  const pts: { x: number; y: number }[] = [];
+
+  for (let i = 0; i <= segmentsPerEnd; i++) {
+    const a = theta - Math.PI / 2 + (Math.PI * i) / segmentsPerEnd;
+    pts.push({ x: slot.end.x + r * Math.cos(a), y: slot.end.y + r * Math.sin(a) });
+  }
+  for (let i = 0; i <= segmentsPerEnd; i++) {
+    const a = theta + Math.PI / 2 + (Math.PI * i) / segmentsPerEnd;
+    pts.push({ x: slot.start.x + r * Math.cos(a), y: slot.start.y + r * Math.sin(a) });
+  }
+  return pts;
+}
+
+/**
+ * Open walls around each slot, through the full board thickness. Groups
+ * as in createDrillHolesGeometry: plated first, then non plated.
+ */
+function createSlotWallsGeometry(
+  slots: DrillSlot[],
+  thicknessUnits: number
+): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  const zTop = thicknessUnits / 2 + zEps;
+  const zBottom = -thicknessUnits / 2 - zEps;
+
+  let platedIndexCount = 0;
+
+  const ordered = slots.filter((s) => s.plated).concat(slots.filter((s) => !s.plated));
+  for (const slot of ordered) {
+    const outline = slotOutlineMm(slot);
+    const n = outline.length;
+
+    for (let i = 0; i < n; i++) {
+      const a = outline[i];
+      const b = outline[(i + 1) % n];
+      const ax = mmToUnits(a.x);
+      const ay = mmToUnits(a.y);
+      const bx = mmToUnits(b.x);
+      const by = mmToUnits(b.y);
+
+      // Outward facing normal of the edge (outline runs counter clockwise)
+      const len = Math.hypot(bx - ax, by - ay) || 1;
+      const nx = (by - ay) / len;
+      const ny = -(bx - ax) / len;
+
+      const base = positions.length / 3;
+      positions.push(ax, ay, zBottom, bx, by, zBottom, bx, by, zTop, ax, ay, zTop);
+      for (let k = 0; k < 4; k++) normals.push(nx, ny, 0);
+      indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    }
+    if (slot.plated) platedIndexCount = indices.length;
+  }
+
+  const geom = new THREE.BufferGeometry();
+  geom.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geom.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
+  geom.setIndex(indices);
+  geom.addGroup(0, platedIndexCount, 0);
+  geom.addGroup(platedIndexCount, indices.length - platedIndexCount, 1);
+  return geom;
+}
+
+/**
+ * Board shape with every drill hole and slot cut out, in mm.
+ */
+function boardBodyPolygons(geometry: PcbModelGeometry): Polygon[] {
+  const outline = geometry.outline ? geometry.outline.polygons : [];
+  if (outline.length === 0) return [];
+
+  const cutouts: Polygon[] = [];
+  for (const drill of geometry.drills || []) {
+    const r = drill.diameter / 2;
+    const outer: { x: number; y: number }[] = [];
+    for (let i = 0; i < 24; i++) {
+      const a = (Math.PI * 2 * i) / 24;
+      outer.push({ x: drill.x + r * Math.cos(a), y: drill.y + r * Math.sin(a) });
+    }
+    cutouts.push({ outer, holes: [] });
+  }
+  for (const slot of geometry.slots || []) {
+    cutouts.push({ outer: slotOutlineMm(slot), holes: [] });
+  }
+
+  if (cutouts.length === 0) return outline;
+  const body = subtractPolygons(outline, cutouts);
+  return body.length > 0 ? body : outline;
+}
+
+/**
+ * Replace the UVs of a geometry built in board units with a planar
+ * projection where 0..1 spans the board bounds, the layout used by the
+ * baked textures and the FR4 texture repeat.
+ */
+function setBoardPlanarUVs(geom: THREE.BufferGeometry, bounds: BoardBoundsMm) {
+  const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+  const w = bounds.maxX - bounds.minX || 1;
+  const h = bounds.maxY - bounds.minY || 1;
+  const uvs: number[] = [];
+  for (let i = 0; i < pos.count; i++) {
+    uvs.push(
+      (pos.getX(i) / mmToUnits(1) - bounds.minX) / w,
+      (pos.getY(i) / mmToUnits(1) - bounds.minY) / h
+    );
+  }
+  geom.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
+}
+
+/**
+ * Area covered by soldermask on one side: the board outline minus the
+ * openings drawn in the side's mask layers. Null when the side has no mask
+ * layer, the side is then rendered without mask information.
+ */
+function maskCoveragePolygons(
+  geometry: PcbModelGeometry,
+  side: "top" | "bottom"
+): Polygon[] | null {
+  const masks = geometry.maskLayers.filter((l) => l.side === side);
+  if (masks.length === 0) return null;
+
+  const outline = geometry.outline ? geometry.outline.polygons : [];
+  const openings: Polygon[] = [];
+  for (const layer of masks) {
+    for (const poly of layer.polygons) openings.push(poly);
+  }
+  return subtractPolygons(outline, openings);
+}
+
+/**
+ * Depth of each inner copper layer below the top surface, as a fraction of
+ * the board thickness. Uses the stackup thicknesses when the job file gives
+ * one entry per copper layer, otherwise spaces the copper layers evenly in
+ * their top to bottom order.
+ */
+function innerCopperDepths(geometry: PcbModelGeometry): Map<LayerGeometry, number> {
+  const depths = new Map<LayerGeometry, number>();
+  const copper = geometry.copperLayers;
+  const n = copper.length;
+  if (n < 3) return depths;
+
+  // Copper centre positions from the stackup, top to bottom
+  const stackupDepths: number[] = [];
+  let total = 0;
+  let complete = true;
+  for (const l of geometry.stackup || []) {
+    if (l.type !== "copper" && l.type !== "dielectric") continue;
+    const t = l.thicknessMm;
+    if (t === undefined) {
+      complete = false;
+      break;
+    }
+    if (l.type === "copper") stackupDepths.push(total + t / 2);
+    total += t;
+  }
+  const useStackup = complete && total > 0 && stackupDepths.length === n;
+
+  copper.forEach((layer, i) => {
+    if (layer.side) return;
+    const k = useStackup && layer.copperIndex !== undefined ? layer.copperIndex - 1 : i;
+    depths.set(
+      layer,
+      useStackup && k >= 0 && k < n ? stackupDepths[k] / total : i / (n - 1)
+    );
+  });
+  return depths;
+}
+
+function hexToCss(hex: number): string {
+  return `#${hex.toString(16).padStart(6, "0")}`;
+}
+
+function mixHex(a: number, b: number, t: number): number {
+  const ch = (shift: number) =>
+    Math.round(((a >> shift) & 0xff) * (1 - t) + ((b >> shift) & 0xff) * t);
+  return (ch(16) << 16) | (ch(8) << 8) | ch(0);
+}
+
 // --------------------------
 // Baked texture helpers
 // --------------------------
@@ -179,6 +389,8 @@ interface BakeSideOptions {
   texSize?: number;
   fr4ColorMap?: string;
   fr4NormalMap?: string;
+  appearance?: PcbAppearance;
+  maskCoverage?: Polygon[] | null; // see maskCoveragePolygons
 }
 
 interface SideTextureSet {
@@ -361,6 +573,19 @@ function bakeSideTexturesFromGeometry(
     }
   }
 
+  // Mask colour other than the green of the texture: recolour, keeping
+  // the texture's shading
+  {
+    const maskHex = boardColorHex(opts.appearance?.soldermaskColor);
+    if (maskHex !== null) {
+      colorCtx.save();
+      colorCtx.globalCompositeOperation = "color";
+      colorCtx.fillStyle = `#${maskHex.toString(16).padStart(6, "0")}`;
+      colorCtx.fillRect(0, 0, texSize, texSize);
+      colorCtx.restore();
+    }
+  }
+
   // Base metalness: FR4 non metal
   metalCtx.fillStyle = "rgb(0,0,0)";
   metalCtx.fillRect(0, 0, texSize, texSize);
@@ -386,6 +611,23 @@ function bakeSideTexturesFromGeometry(
     return { x, y };
   };
 
+  // Add polygons, holes included, to the current path of ctx. Fill with
+  // "evenodd" so the holes stay open.
+  const tracePolygons = (ctx: CanvasRenderingContext2D, polys: Polygon[]) => {
+    for (const poly of polys) {
+      for (const ring of [poly.outer, ...(poly.holes || [])]) {
+        if (!ring || ring.length < 3) continue;
+        const first = mmToPixel(ring[0].x, ring[0].y);
+        ctx.moveTo(first.x, first.y);
+        for (let i = 1; i < ring.length; i++) {
+          const p = mmToPixel(ring[i].x, ring[i].y);
+          ctx.lineTo(p.x, p.y);
+        }
+        ctx.closePath();
+      }
+    }
+  };
+
   const drawPolygon = (
     poly: Polygon,
     color: string | null,
@@ -395,115 +637,169 @@ function bakeSideTexturesFromGeometry(
   ) => {
     if (!poly.outer || poly.outer.length < 3) return;
 
+    const fill = (ctx: CanvasRenderingContext2D, style: string) => {
+      ctx.beginPath();
+      tracePolygons(ctx, [poly]);
+      ctx.fillStyle = style;
+      ctx.fill("evenodd");
+    };
+
     // Color overlay
     if (color !== null) {
-      colorCtx.beginPath();
-      const first = mmToPixel(poly.outer[0].x, poly.outer[0].y);
-      colorCtx.moveTo(first.x, first.y);
-      for (let i = 1; i < poly.outer.length; i++) {
-        const p = mmToPixel(poly.outer[i].x, poly.outer[i].y);
-        colorCtx.lineTo(p.x, p.y);
-      }
-      colorCtx.closePath();
-      colorCtx.fillStyle = color;
-      colorCtx.fill();
+      fill(colorCtx, color);
     }
 
     // Metalness
     if (metalLevel !== null) {
       const mByte = Math.max(0, Math.min(255, Math.round(metalLevel * 255)));
-      metalCtx.beginPath();
-      const first = mmToPixel(poly.outer[0].x, poly.outer[0].y);
-      metalCtx.moveTo(first.x, first.y);
-      for (let i = 1; i < poly.outer.length; i++) {
-        const p = mmToPixel(poly.outer[i].x, poly.outer[i].y);
-        metalCtx.lineTo(p.x, p.y);
-      }
-      metalCtx.closePath();
-      metalCtx.fillStyle = `rgb(${mByte}, ${mByte}, ${mByte})`;
-      metalCtx.fill();
+      fill(metalCtx, `rgb(${mByte}, ${mByte}, ${mByte})`);
     }
 
     // Roughness
     if (roughLevel !== null) {
       const rByte = Math.max(0, Math.min(255, Math.round(roughLevel * 255)));
-      roughCtx.beginPath();
-      const first = mmToPixel(poly.outer[0].x, poly.outer[0].y);
-      roughCtx.moveTo(first.x, first.y);
-      for (let i = 1; i < poly.outer.length; i++) {
-        const p = mmToPixel(poly.outer[i].x, poly.outer[i].y);
-        roughCtx.lineTo(p.x, p.y);
-      }
-      roughCtx.closePath();
-      roughCtx.fillStyle = `rgb(${rByte}, ${rByte}, ${rByte})`;
-      roughCtx.fill();
+      fill(roughCtx, `rgb(${rByte}, ${rByte}, ${rByte})`);
     }
 
     // Height
     if (heightLevel !== null) {
       const hByte = Math.max(0, Math.min(255, Math.round(heightLevel * 255)));
-      heightCtx.beginPath();
-      const first = mmToPixel(poly.outer[0].x, poly.outer[0].y);
-      heightCtx.moveTo(first.x, first.y);
-      for (let i = 1; i < poly.outer.length; i++) {
-        const p = mmToPixel(poly.outer[i].x, poly.outer[i].y);
-        heightCtx.lineTo(p.x, p.y);
-      }
-      heightCtx.closePath();
-      heightCtx.fillStyle = `rgba(${hByte}, ${hByte}, ${hByte}, 255)`;
-      heightCtx.fill();
+      fill(heightCtx, `rgba(${hByte}, ${hByte}, ${hByte}, 255)`);
     }
   };
 
-  // Copper polygons
-  const copperColor = "#c58b45";
-  for (const layer of geometry.copperLayers) {
-    if (layer.side !== sideKey) continue;
+  const maskCoverage = opts.maskCoverage ?? null;
+  const sideCopper = geometry.copperLayers.filter((l) => l.side === sideKey);
+
+  // Mask openings without copper show the bare laminate
+  if (maskCoverage) {
+    for (const layer of geometry.maskLayers) {
+      if (layer.side !== sideKey) continue;
+      for (const poly of layer.polygons) {
+        drawPolygon(poly, hexToCss(BARE_FR4_COLOR), 0.0, 0.8, null);
+      }
+    }
+  }
+
+  // Copper polygons, in the exposed finish
+  const finishHex = finishColorHex(opts.appearance?.surfaceFinish) ?? 0xc58b45;
+  const copperColor = hexToCss(finishHex);
+  for (const layer of sideCopper) {
     for (const poly of layer.polygons) {
       drawPolygon(poly, copperColor, 1.0, 0.15, 1.0);
     }
   }
 
+  // Copper under the mask: mask coloured, slightly lighter where the
+  // copper raises it, and not metallic. Height is kept so traces still
+  // show through the mask.
+  if (maskCoverage && maskCoverage.length > 0) {
+    const maskHex = boardColorHex(opts.appearance?.soldermaskColor) ?? 0x0aa64f;
+    const tintColor = hexToCss(mixHex(maskHex, 0xc58b45, 0.25));
+
+    for (const ctx of [colorCtx, metalCtx, roughCtx]) {
+      ctx.save();
+      ctx.beginPath();
+      tracePolygons(ctx, maskCoverage);
+      ctx.clip("evenodd");
+    }
+    for (const layer of sideCopper) {
+      for (const poly of layer.polygons) {
+        drawPolygon(poly, tintColor, 0.0, 0.4, null);
+      }
+    }
+    for (const ctx of [colorCtx, metalCtx, roughCtx]) {
+      ctx.restore();
+    }
+  }
+
+  // Silkscreen on top of the mask. Fabs clip the legend against mask
+  // openings, so it is only printed where the mask covers the board. The
+  // height map keeps the higher of silk and copper.
+  const sideSilk = geometry.silkLayers.filter((l) => l.side === sideKey);
+  if (sideSilk.length > 0) {
+    const silkColor = hexToCss(boardColorHex(opts.appearance?.silkscreenColor) ?? 0xffffff);
+
+    for (const ctx of [colorCtx, metalCtx, roughCtx, heightCtx]) {
+      ctx.save();
+      if (maskCoverage) {
+        ctx.beginPath();
+        tracePolygons(ctx, maskCoverage);
+        ctx.clip("evenodd");
+      }
+    }
+    heightCtx.globalCompositeOperation = "lighten";
+
+    for (const layer of sideSilk) {
+      for (const poly of layer.polygons) {
+        drawPolygon(poly, silkColor, 0.0, 0.7, 0.6);
+      }
+    }
+
+    for (const ctx of [colorCtx, metalCtx, roughCtx, heightCtx]) {
+      ctx.restore();
+    }
+  }
+
+  // Punch a hole shape into all maps. tracePath adds the shape to the
+  // current path of the given context.
+  const punchHole = (tracePath: (ctx: CanvasRenderingContext2D) => void) => {
+    // Color: punch out alpha
+    colorCtx.save();
+    colorCtx.globalCompositeOperation = "destination-out";
+    colorCtx.beginPath();
+    tracePath(colorCtx);
+    colorCtx.fill();
+    colorCtx.restore();
+
+    // Height: reset to flat baseline under hole
+    heightCtx.save();
+    heightCtx.globalCompositeOperation = "source-over";
+    heightCtx.beginPath();
+    tracePath(heightCtx);
+    heightCtx.fillStyle = "rgba(0,0,0,255)";
+    heightCtx.fill();
+    heightCtx.restore();
+
+    // Metalness: non metal in hole region
+    metalCtx.save();
+    metalCtx.globalCompositeOperation = "source-over";
+    metalCtx.beginPath();
+    tracePath(metalCtx);
+    metalCtx.fillStyle = "rgb(0,0,0)";
+    metalCtx.fill();
+    metalCtx.restore();
+
+    // Roughness: just reset to FR4 baseline
+    roughCtx.save();
+    roughCtx.globalCompositeOperation = "source-over";
+    roughCtx.beginPath();
+    tracePath(roughCtx);
+    roughCtx.fillStyle = `rgb(${fr4RoughByte}, ${fr4RoughByte}, ${fr4RoughByte})`;
+    roughCtx.fill();
+    roughCtx.restore();
+  };
+
   // Drill holes punched into all maps
   if (geometry.drills && geometry.drills.length > 0) {
     for (const drill of geometry.drills) {
       const { x, y } = mmToPixel(drill.x, drill.y);
       const radiusPx = (drill.diameter * 0.5) * pxPerMmAvg;
+      punchHole((ctx) => ctx.arc(x, y, radiusPx, 0, Math.PI * 2));
+    }
+  }
 
-      // Color: punch out alpha
-      colorCtx.save();
-      colorCtx.globalCompositeOperation = "destination-out";
-      colorCtx.beginPath();
-      colorCtx.arc(x, y, radiusPx, 0, Math.PI * 2);
-      colorCtx.fill();
-      colorCtx.restore();
-
-      // Height: reset to flat baseline under hole
-      heightCtx.save();
-      heightCtx.globalCompositeOperation = "source-over";
-      heightCtx.beginPath();
-      heightCtx.arc(x, y, radiusPx, 0, Math.PI * 2);
-      heightCtx.fillStyle = "rgba(0,0,0,255)";
-      heightCtx.fill();
-      heightCtx.restore();
-
-      // Metalness: non metal in hole region
-      metalCtx.save();
-      metalCtx.globalCompositeOperation = "source-over";
-      metalCtx.beginPath();
-      metalCtx.arc(x, y, radiusPx, 0, Math.PI * 2);
-      metalCtx.fillStyle = "rgb(0,0,0)";
-      metalCtx.fill();
-      metalCtx.restore();
-
-      // Roughness: just reset to FR4 baseline
-      roughCtx.save();
-      roughCtx.globalCompositeOperation = "source-over";
-      roughCtx.beginPath();
-      roughCtx.arc(x, y, radiusPx, 0, Math.PI * 2);
-      roughCtx.fillStyle = `rgb(${fr4RoughByte}, ${fr4RoughByte}, ${fr4RoughByte})`;
-      roughCtx.fill();
-      roughCtx.restore();
+  // Slots and routed paths punched the same way
+  if (geometry.slots && geometry.slots.length > 0) {
+    for (const slot of geometry.slots) {
+      const outline = slotOutlineMm(slot).map((p) => mmToPixel(p.x, p.y));
+      punchHole((ctx) => {
+        ctx.moveTo(outline[0].x, outline[0].y);
+        for (let i = 1; i < outline.length; i++) {
+          ctx.lineTo(outline[i].x, outline[i].y);
+        }
+        ctx.closePath();
+      });
     }
   }
 
@@ -595,13 +891,34 @@ export function buildPcbScene(
 ): SceneBuildResult {
   const group = new THREE.Group();
   const layerMeshes = new Map<string, THREE.Mesh>();
+  const appearance: PcbAppearance = { ...geometry.appearance };
+  if (opts.silkscreenColor) appearance.silkscreenColor = opts.silkscreenColor;
+  const materialOpts = { ...opts, ...appearance };
 
   const thicknessUnits = mmToUnits(geometry.thicknessMm);
   const widthUnits = mmToUnits(geometry.widthMm);
   const heightUnits = mmToUnits(geometry.heightMm);
 
-  // FR4 body
-  const fr4Geom = new THREE.BoxGeometry(widthUnits, heightUnits, thicknessUnits);
+  // Board coordinates are centred on the outline bounds
+  const bounds = computeBoardBoundsMm(geometry);
+  const centerX = mmToUnits((bounds.minX + bounds.maxX) / 2);
+  const centerY = mmToUnits((bounds.minY + bounds.maxY) / 2);
+
+  // Board shape with holes, shared by the body and the baked surfaces
+  const bodyShapes = boardBodyPolygons(geometry).map(polyToShape);
+
+  // FR4 body, extruded from the outline
+  let fr4Geom: THREE.BufferGeometry;
+  if (bodyShapes.length > 0) {
+    fr4Geom = new THREE.ExtrudeGeometry(bodyShapes, {
+      depth: thicknessUnits,
+      bevelEnabled: false,
+    });
+    setBoardPlanarUVs(fr4Geom, bounds);
+    fr4Geom.translate(-centerX, -centerY, -thicknessUnits / 2);
+  } else {
+    fr4Geom = new THREE.BoxGeometry(widthUnits, heightUnits, thicknessUnits);
+  }
   const fr4Mat = createFr4Material({
     boardWidthMm: geometry.widthMm,
     boardHeightMm: geometry.heightMm,
@@ -609,40 +926,55 @@ export function buildPcbScene(
     fr4ColorMap: opts.fr4ColorMap,
     fr4NormalMap: opts.fr4NormalMap,
     usePbrMaterials: opts.usePbrMaterials,
+    soldermaskColor: appearance.soldermaskColor,
   });
   const fr4Mesh = new THREE.Mesh(fr4Geom, fr4Mat);
   fr4Mesh.castShadow = true;
   fr4Mesh.receiveShadow = true;
+  layerMeshes.set("board", fr4Mesh);
   group.add(fr4Mesh);
 
   const copperThick = 0.035 * mmToUnits(1);
   const maskThick = 0.01 * mmToUnits(1);
   const silkThick = 0.01 * mmToUnits(1);
+  const pasteThick = 0.12 * mmToUnits(1); // typical stencil thickness
 
   const topSurfaceZ = thicknessUnits / 2;
   const bottomSurfaceZ = -thicknessUnits / 2;
 
   const useBakedLayers = opts.useBakedLayers !== undefined ? opts.useBakedLayers : true;
 
-  if (useBakedLayers) {
-    const bounds = computeBoardBoundsMm(geometry);
+  // Surface in the board shape for the baked textures, centred like the
+  // body; a plain rectangle when there is no outline
+  const createSurfaceGeometry = (): THREE.BufferGeometry => {
+    if (bodyShapes.length === 0) return new THREE.PlaneGeometry(widthUnits, heightUnits);
+    const geom = new THREE.ShapeGeometry(bodyShapes);
+    setBoardPlanarUVs(geom, bounds);
+    geom.translate(-centerX, -centerY, 0);
+    return geom;
+  };
 
+  if (useBakedLayers) {
     const topTextures = bakeSideTexturesFromGeometry(geometry, bounds, {
       side: "top",
       texSize: opts.bakedTextureSize ?? 2048,
       fr4ColorMap: opts.fr4ColorMap,
       fr4NormalMap: opts.fr4NormalMap,
+      appearance,
+      maskCoverage: maskCoveragePolygons(geometry, "top"),
     });
     const bottomTextures = bakeSideTexturesFromGeometry(geometry, bounds, {
       side: "bottom",
       texSize: opts.bakedTextureSize ?? 2048,
       fr4ColorMap: opts.fr4ColorMap,
       fr4NormalMap: opts.fr4NormalMap,
+      appearance,
+      maskCoverage: maskCoveragePolygons(geometry, "bottom"),
     });
 
     // Top baked surface, with alpha holes
     {
-      const geom = new THREE.PlaneGeometry(widthUnits, heightUnits);
+      const geom = createSurfaceGeometry();
       const mat = new THREE.MeshStandardMaterial({
         map: topTextures.color,
         normalMap: topTextures.normal,
@@ -667,9 +999,10 @@ export function buildPcbScene(
       group.add(mesh);
     }
 
-    // Bottom baked surface, with alpha holes
+    // Bottom baked surface, with alpha holes. Gerber data is seen from
+    // the top, so the surface is not mirrored, only seen from below.
     {
-      const geom = new THREE.PlaneGeometry(widthUnits, heightUnits);
+      const geom = createSurfaceGeometry();
       const mat = new THREE.MeshStandardMaterial({
         map: bottomTextures.color,
         normalMap: bottomTextures.normal,
@@ -684,7 +1017,6 @@ export function buildPcbScene(
       });
 
       const mesh = new THREE.Mesh(geom, mat);
-      mesh.rotateX(Math.PI);
       mesh.position.set(0, 0, bottomSurfaceZ - zEps);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
@@ -699,7 +1031,7 @@ export function buildPcbScene(
     // Copper
     for (const layer of geometry.copperLayers) {
       if (!layer.side) continue;
-      const mat = createCopperMaterial(layer.side, opts);
+      const mat = createCopperMaterial(layer.side, materialOpts);
       const parts = extrudeLayerPolygons(
         layer,
         geometry,
@@ -709,6 +1041,7 @@ export function buildPcbScene(
           : bottomSurfaceZ - copperThick - zEps,
         copperThick
       );
+      parts.translate(-centerX, -centerY, 0);
       const mesh = new THREE.Mesh(parts, mat);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
@@ -718,12 +1051,17 @@ export function buildPcbScene(
       group.add(mesh);
     }
 
-    // Soldermask
+    // Soldermask: mask layers hold the openings, the mask itself is the
+    // outline minus those
     for (const layer of geometry.maskLayers) {
       if (!layer.side) continue;
-      const mat = createSoldermaskMaterial(layer.side, opts);
+      const mat = createSoldermaskMaterial(layer.side, materialOpts);
+      const coverage = subtractPolygons(
+        geometry.outline ? geometry.outline.polygons : [],
+        layer.polygons
+      );
       const parts = extrudeLayerPolygons(
-        layer,
+        { ...layer, polygons: coverage },
         geometry,
         mmToUnits(1),
         layer.side === "top"
@@ -731,6 +1069,7 @@ export function buildPcbScene(
           : bottomSurfaceZ - copperThick - maskThick - zEps,
         maskThick
       );
+      parts.translate(-centerX, -centerY, 0);
       const mesh = new THREE.Mesh(parts, mat);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
@@ -743,7 +1082,7 @@ export function buildPcbScene(
     // Silkscreen
     for (const layer of geometry.silkLayers) {
       if (!layer.side) continue;
-      const mat = createSilkscreenMaterial(layer.side, opts);
+      const mat = createSilkscreenMaterial(layer.side, materialOpts);
       const parts = extrudeLayerPolygons(
         layer,
         geometry,
@@ -753,6 +1092,7 @@ export function buildPcbScene(
           : bottomSurfaceZ - copperThick - maskThick - silkThick - zEps,
         silkThick
       );
+      parts.translate(-centerX, -centerY, 0);
       const mesh = new THREE.Mesh(parts, mat);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
@@ -763,21 +1103,79 @@ export function buildPcbScene(
     }
   }
 
+  // Inner copper inside the FR4 body, seen with the X-ray view or when
+  // the stackup is exploded. Inner layers carry no finish.
+  for (const [layer, depth] of innerCopperDepths(geometry)) {
+    const mat = createCopperMaterial("top", { ...materialOpts, surfaceFinish: "bare copper" });
+    const parts = extrudeLayerPolygons(
+      layer,
+      geometry,
+      mmToUnits(1),
+      topSurfaceZ - depth * thicknessUnits - copperThick / 2,
+      copperThick
+    );
+    parts.translate(-centerX, -centerY, 0);
+    const mesh = new THREE.Mesh(parts, mat);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+
+    const key = `copper:inner:${layer.name ?? ""}`;
+    layerMeshes.set(key, mesh);
+    group.add(mesh);
+  }
+
+  // Solder paste deposits, on top of the pads in both paths
+  if (opts.showPaste) {
+    for (const layer of geometry.pasteLayers) {
+      if (!layer.side || layer.polygons.length === 0) continue;
+      const mat = createPasteMaterial(layer.side, materialOpts);
+      const parts = extrudeLayerPolygons(
+        layer,
+        geometry,
+        mmToUnits(1),
+        layer.side === "top"
+          ? topSurfaceZ + copperThick + zEps
+          : bottomSurfaceZ - copperThick - pasteThick - zEps,
+        pasteThick
+      );
+      parts.translate(-centerX, -centerY, 0);
+      const mesh = new THREE.Mesh(parts, mat);
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+
+      const key = `paste:${layer.side}:${layer.name ?? ""}`;
+      layerMeshes.set(key, mesh);
+      group.add(mesh);
+    }
+  }
+
+  // Hole walls: plated barrels in the finish colour, non plated bare FR4
+  const holeWallMats = [
+    createHoleWallMaterial(true, materialOpts),
+    createHoleWallMaterial(false, materialOpts),
+  ];
+
   // Drill walls
   if (geometry.drills && geometry.drills.length > 0) {
     const drillGeom = createDrillHolesGeometry(geometry.drills, thicknessUnits);
-    const drillMat = new THREE.MeshStandardMaterial({
-      color: new THREE.Color(0x222222),
-      metalness: 0.4,
-      roughness: 0.6,
-      side: THREE.DoubleSide,
-    });
-    const drillMesh = new THREE.Mesh(drillGeom, drillMat);
+    drillGeom.translate(-centerX, -centerY, 0);
+    const drillMesh = new THREE.Mesh(drillGeom, holeWallMats);
     drillMesh.castShadow = true;
     drillMesh.receiveShadow = true;
     layerMeshes.set("drills", drillMesh);
     group.add(drillMesh);
   }
 
+  // Slot walls
+  if (geometry.slots && geometry.slots.length > 0) {
+    const slotGeom = createSlotWallsGeometry(geometry.slots, thicknessUnits);
+    slotGeom.translate(-centerX, -centerY, 0);
+    const slotMesh = new THREE.Mesh(slotGeom, holeWallMats);
+    slotMesh.castShadow = true;
+    slotMesh.receiveShadow = true;
+    layerMeshes.set("slots", slotMesh);
+    group.add(slotMesh);
+  }
+
   return { group, layerMeshes };
 }
@@ -1,7 +1,12 @@
 // src/render/three/viewer-3d.ts
 import * as THREE from "three";
 import type { PcbModelGeometry } from "../../types/pcb-model";
-import { buildPcbScene, type SceneBuildResult } from "./scene-builder";
+import {
+  buildPcbScene,
+  type SceneBuildOptions,
+  type SceneBuildResult,
+} from "./scene-builder";
+import { ExplodedView } from "./explode";
 import { addDefaultLights } from "./lights";
 import { createOrbitControls } from "./controls";
 import { resizeRendererToDisplaySize, disposeObject3D } from "./utils";
@@ -11,6 +16,22 @@ export interface Viewer3DOptions {
   autoResize?: boolean;
   usePbrMaterials?: boolean;
   backgroundColor?: number;
+  silkscreenColor?: string; // legend colour: "white", "black", "yellow" or "#rrggbb"
+  showPaste?: boolean;      // solder paste deposits on the pads
+  useBakedLayers?: boolean; // baked surfaces, default; setExplode switches to per-layer meshes
+}
+
+/**
+ * Meshes made see-through by the X-ray view: the FR4 body and everything
+ * printed on it.
+ */
+const XRAY_PREFIXES = ["board", "baked:", "mask:", "silk:"];
+
+interface SavedMaterialState {
+  transparent: boolean;
+  opacity: number;
+  alphaTest: number;
+  depthWrite: boolean;
 }
 
 export class Viewer3D {
@@ -19,9 +40,18 @@ export class Viewer3D {
   private camera: THREE.PerspectiveCamera;
   private running = false;
   private controls: any;
+  private geometry: PcbModelGeometry;
+  private buildOptions: SceneBuildOptions;
   private sceneBuild: SceneBuildResult;
   private autoResize: boolean;
   private animationFrameId: number | null = null;
+  private xrayState = new Map<THREE.Material, SavedMaterialState>();
+  private xrayOpacity: number | null = null; // while the X-ray view is on
+
+  private exploded: ExplodedView;
+  private explodeSpacing = 1;
+  private explodeHalfThickness = 1;
+  private lastFrameTime: number | null = null;
 
   constructor(geometry: PcbModelGeometry, options: Viewer3DOptions) {
     const { canvas, autoResize = true, backgroundColor = 0x111111 } = options;
@@ -48,15 +78,25 @@ export class Viewer3D {
 
     addDefaultLights(this.scene, this.renderer);
 
-    this.sceneBuild = buildPcbScene(geometry, {
+    this.geometry = geometry;
+    this.buildOptions = {
       usePbrMaterials: options.usePbrMaterials,
-      bakedTextureSize: 4096
-    });
+      bakedTextureSize: 4096,
+      silkscreenColor: options.silkscreenColor,
+      showPaste: options.showPaste,
+      useBakedLayers: options.useBakedLayers,
+    };
+    this.sceneBuild = buildPcbScene(geometry, this.buildOptions);
     this.scene.add(this.sceneBuild.group);
 
     this.controls = createOrbitControls(this.camera, canvas);
 
     this.positionCameraToFitBoard(geometry);
+    this.exploded = new ExplodedView(
+      this.sceneBuild.layerMeshes,
+      this.explodeSpacing,
+      this.explodeHalfThickness
+    );
 
     if (this.autoResize) {
       window.addEventListener("resize", this.handleResize);
@@ -74,6 +114,9 @@ export class Viewer3D {
     const maxDim = Math.max(widthUnits, heightUnits, thicknessUnits);
     const dist = maxDim * 2.0;
 
+    this.explodeSpacing = Math.max(widthUnits, heightUnits) * 0.08;
+    this.explodeHalfThickness = thicknessUnits / 2 || 1;
+
     this.camera.position.set(dist, dist, dist);
     this.camera.lookAt(0, 0, 0);
   }
@@ -87,6 +130,7 @@ export class Viewer3D {
     const renderLoop = () => {
       if (!this.running) return;
       this.animationFrameId = requestAnimationFrame(renderLoop);
+      this.updateExplode();
       this.controls.update();
       resizeRendererToDisplaySize(this.renderer, this.camera);
       this.renderer.render(this.scene, this.camera);
@@ -99,6 +143,7 @@ export class Viewer3D {
    * - "copper:top"
    * - "mask:bottom"
    * - "silk:top"
+   * - "paste:top" (with showPaste)
    */
   setLayerVisible(prefix: string, visible: boolean) {
     for (const [id, mesh] of this.sceneBuild.layerMeshes.entries()) {
@@ -108,6 +153,91 @@ export class Viewer3D {
     }
   }
 
+  /**
+   * X-ray view: the board body and its surfaces become semi-transparent so
+   * inner copper layers, barrels and slots show through. Turning it off
+   * restores the materials as they were.
+   */
+  setXRay(enabled: boolean, opacity = 0.3) {
+    this.xrayOpacity = enabled ? opacity : null;
+    for (const [id, mesh] of this.sceneBuild.layerMeshes.entries()) {
+      if (!XRAY_PREFIXES.some((p) => id.startsWith(p))) continue;
+
+      const mats = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      for (const mat of mats) {
+        let saved = this.xrayState.get(mat);
+        if (enabled) {
+          if (!saved) {
+            saved = {
+              transparent: mat.transparent,
+              opacity: mat.opacity,
+              alphaTest: mat.alphaTest,
+              depthWrite: mat.depthWrite,
+            };
+            this.xrayState.set(mat, saved);
+          }
+          mat.transparent = true;
+          mat.opacity = opacity;
+          // Baked surfaces cut holes with alphaTest, scale it with the
+          // opacity so the rest of the surface is not discarded
+          mat.alphaTest = saved.alphaTest > 0 ? saved.alphaTest * opacity : 0;
+          mat.depthWrite = false;
+        } else if (saved) {
+          mat.transparent = saved.transparent;
+          mat.opacity = saved.opacity;
+          mat.alphaTest = saved.alphaTest;
+          mat.depthWrite = saved.depthWrite;
+          this.xrayState.delete(mat);
+        }
+        mat.needsUpdate = true;
+      }
+    }
+  }
+
+  /**
+   * Exploded stackup: separate the layers along Z, factor 0 is the
+   * assembled board and 1 spreads the layers by about 8% of the board size
+   * per step. The change is animated. Baked surfaces cannot come apart, so
+   * a baked scene is rebuilt with per-layer meshes first.
+   */
+  setExplode(factor: number) {
+    if (factor > 0 && this.sceneBuild.layerMeshes.has("baked:top")) {
+      this.rebuildScene({ useBakedLayers: false });
+    }
+    this.exploded.setTarget(factor);
+  }
+
+  private rebuildScene(overrides: SceneBuildOptions) {
+    const previous = this.sceneBuild;
+    this.buildOptions = { ...this.buildOptions, ...overrides };
+    this.sceneBuild = buildPcbScene(this.geometry, this.buildOptions);
+
+    // Layers found in both scenes keep their visibility
+    for (const [id, mesh] of this.sceneBuild.layerMeshes.entries()) {
+      const old = previous.layerMeshes.get(id);
+      if (old) mesh.visible = old.visible;
+    }
+
+    this.scene.remove(previous.group);
+    disposeObject3D(previous.group);
+    this.scene.add(this.sceneBuild.group);
+
+    this.xrayState.clear();
+    if (this.xrayOpacity !== null) this.setXRay(true, this.xrayOpacity);
+    this.exploded = new ExplodedView(
+      this.sceneBuild.layerMeshes,
+      this.explodeSpacing,
+      this.explodeHalfThickness
+    );
+  }
+
+  private updateExplode() {
+    const now = performance.now();
+    const dt = this.lastFrameTime === null ? 0 : (now - this.lastFrameTime) / 1000;
+    this.lastFrameTime = now;
+    this.exploded.update(dt);
+  }
+
   resize() {
     resizeRendererToDisplaySize(this.renderer, this.camera);
   }
@@ -0,0 +1,39 @@
+// src/types/diagnostics.ts
+
+/**
+ * Diagnostics reported while parsing Gerber and drill files.
+ *
+ * Parsers are lenient: when they meet something they cannot use they skip
+ * it and report a diagnostic instead, so callers can show what was dropped.
+ */
+
+export type DiagnosticSeverity = "warning" | "error";
+
+export type DiagnosticCode =
+  | "UNSUPPORTED_COMMAND" // command not implemented, ignored
+  | "UNKNOWN_COMMAND"     // text that is not a valid command
+  | "UNDEFINED_APERTURE"  // D code or draw without a defined aperture
+  | "UNDEFINED_MACRO"     // %AD references a macro that was never defined
+  | "INVALID_APERTURE"    // malformed %AD
+  | "INVALID_MACRO"       // malformed %AM
+  | "INVALID_FORMAT"      // malformed %FS
+  | "MISSING_FORMAT"      // coordinates before any %FS
+  | "MISSING_UNITS"       // coordinates before any %MO
+  | "FLASH_IN_REGION"     // D03 between G36 and G37
+  | "NON_CIRCULAR_ARC"    // arc drawn with an R, O or P aperture
+  | "UNCLOSED_REGION"     // G36 without G37
+  | "UNCLOSED_BLOCK"      // %SR or %AB still open at end of file
+  | "MISSING_END"         // no M02 / M30 end of file
+  | "UNDEFINED_TOOL";     // drill hit with a tool that has no diameter
+
+export interface ParseDiagnostic {
+  file: string;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+
+  // Source position, when known. Line and column are 1 based.
+  offset?: number;
+  line?: number;
+  column?: number;
+}
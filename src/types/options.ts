@@ -1,17 +1,76 @@
 // src/types/options.ts
 import type { LayerHints } from "../io/file-classifier";
+import type { ParseDiagnostic } from "./diagnostics";
 
 export interface LoadFromZipOptions {
   /**
    * Board thickness in millimeters.
-   * Used when the geometry pipeline builds the 3D model.
+   * Used when the geometry pipeline builds the 3D model. Overrides the job
+   * file, defaults to 1.6 when neither gives it.
    */
   boardThicknessMm?: number;
 
+  /**
+   * Board colours and finish. Each overrides the job file value.
+   */
+  soldermaskColor?: string;
+  silkscreenColor?: string;
+  surfaceFinish?: string;
+
   /**
    * Optional hints to override layer role detection based on filenames.
    */
   layerHints?: LayerHints;
+
+  /**
+   * Reject non-conforming files: parsing throws a ParseError on undefined
+   * apertures, flashes in regions, missing %FS / %MO / M02, unclosed
+   * regions, unknown or unsupported commands and D codes, instead of
+   * skipping them.
+   */
+  strict?: boolean;
+
+  /**
+   * Unzip, parse and polygonize in Web Workers, one task per file spread
+   * over a pool, so the main thread stays responsive. A number sets the
+   * pool size, true uses the core count minus one, up to 4. Ignored where
+   * workers are not available.
+   */
+  useWorkers?: boolean | number;
+
+  /**
+   * Cancels the load. It stops between files and layers and rejects with
+   * an AbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called as the load moves through its stages, see LoadProgress.
+   */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * Stages of a load, in order. "bake" is only reported by renderGerbersZip,
+ * before and after the viewer bakes the layer textures.
+ */
+export type LoadStage = "unzip" | "classify" | "parse" | "polygonize" | "bake";
+
+export interface LoadProgress {
+  stage: LoadStage;
+
+  /**
+   * Overall progress from 0 to 1, growing across stages.
+   */
+  fraction: number;
+
+  /**
+   * File or layer being worked on, and its position: file N of M while
+   * parsing, layer N of M while polygonizing.
+   */
+  name?: string;
+  index?: number;
+  count?: number;
 }
 
 /**
@@ -21,3 +80,18 @@ export interface LoadFromZipOptions {
 export interface RenderFromZipOptions extends LoadFromZipOptions {
   canvas?: HTMLCanvasElement;
 }
+
+/**
+ * Options for the individual file parsers (parseGerberFile, parseDrillFile).
+ */
+export interface ParseOptions {
+  /**
+   * Receives warnings and errors found while parsing.
+   */
+  diagnostics?: ParseDiagnostic[];
+
+  /**
+   * Throw a ParseError on non-conforming input instead of skipping it.
+   */
+  strict?: boolean;
+}
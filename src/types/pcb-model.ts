@@ -1,7 +1,9 @@
 // src/types/pcb-model.ts
 
+import type { ParseDiagnostic } from "./diagnostics";
+
 export type PcbSide = "top" | "bottom";
-export type PcbLayerKind = "copper" | "soldermask" | "silkscreen" | "outline";
+export type PcbLayerKind = "copper" | "soldermask" | "silkscreen" | "paste" | "outline";
 
 export interface Vec2 {
   x: number;
@@ -18,6 +20,7 @@ export interface LayerGeometry {
   side: PcbSide | null;
   kind: PcbLayerKind;
   polygons: Polygon[];
+  copperIndex?: number; // copper only: 1 = top, counting down the stackup
 }
 
 export interface DrillHole {
@@ -27,6 +30,39 @@ export interface DrillHole {
   plated: boolean;
 }
 
+/**
+ * One layer of the physical stackup, top to bottom, as described by a
+ * Gerber job file.
+ */
+export interface PcbStackupLayer {
+  type: "copper" | "dielectric" | "soldermask" | "silkscreen" | "paste" | "other";
+  name?: string;
+  thicknessMm?: number;
+  material?: string;
+  color?: string;
+}
+
+/**
+ * How the finished board looks. Colours are names ("Green", "Black") or
+ * CSS hex strings, the finish is a fab house name ("ENIG", "HASL").
+ */
+export interface PcbAppearance {
+  soldermaskColor?: string;
+  silkscreenColor?: string;
+  surfaceFinish?: string;
+}
+
+/**
+ * Slot or routed path segment: a hole swept from start to end, with round
+ * ends. Comes from G85 canned slots and routing in drill files.
+ */
+export interface DrillSlot {
+  start: Vec2;   // mm
+  end: Vec2;     // mm
+  width: number; // mm, tool diameter
+  plated: boolean;
+}
+
 export interface PcbModelGeometry {
   widthMm: number;
   heightMm: number;
@@ -35,6 +71,14 @@ export interface PcbModelGeometry {
   copperLayers: LayerGeometry[];
   maskLayers: LayerGeometry[];
   silkLayers: LayerGeometry[];
+  pasteLayers: LayerGeometry[]; // stencil apertures, i.e. where paste is printed
   outline: LayerGeometry | null;
   drills: DrillHole[];
+  slots: DrillSlot[];
+
+  stackup: PcbStackupLayer[]; // empty without a job file
+  appearance: PcbAppearance;
+
+  // Warnings and errors from parsing, in file order
+  diagnostics: ParseDiagnostic[];
 }
@@ -0,0 +1,47 @@
+// src/utils/error.ts
+
+import type { DiagnosticCode, ParseDiagnostic } from "../types/diagnostics";
+
+/**
+ * Thrown by the parsers in strict mode on the first input that does not
+ * conform to the format. The diagnostic tells where and why.
+ */
+export class ParseError extends Error {
+  readonly diagnostic: ParseDiagnostic;
+
+  constructor(diagnostic: ParseDiagnostic) {
+    const where =
+      diagnostic.line !== undefined
+        ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`
+        : diagnostic.file;
+    super(`${where}: ${diagnostic.message} (${diagnostic.code})`);
+    this.name = "ParseError";
+    this.diagnostic = diagnostic;
+  }
+
+  get code(): DiagnosticCode {
+    return this.diagnostic.code;
+  }
+
+  get file(): string {
+    return this.diagnostic.file;
+  }
+}
+
+/**
+ * Rejects a load cancelled through options.signal.
+ */
+export class AbortError extends Error {
+  constructor(message = "The load was aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Throw an AbortError if the signal has fired. Called between files and
+ * layers, the work in between is not interrupted.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new AbortError();
+}
@@ -0,0 +1,87 @@
+// src/utils/logger.ts
+
+import type {
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ParseDiagnostic,
+} from "../types/diagnostics";
+import { ParseError } from "./error";
+
+/**
+ * Codes that are only warnings normally but reject the file in strict mode.
+ */
+const STRICT_ERROR_CODES: ReadonlySet<DiagnosticCode> = new Set<DiagnosticCode>([
+  "UNKNOWN_COMMAND",
+  "UNSUPPORTED_COMMAND",
+  "MISSING_FORMAT",
+  "MISSING_UNITS",
+  "NON_CIRCULAR_ARC",
+  "UNCLOSED_REGION",
+  "UNCLOSED_BLOCK",
+  "MISSING_END",
+  "UNDEFINED_TOOL",
+]);
+
+/**
+ * Diagnostics sink handed to a parser for one file. It resolves source
+ * offsets to line and column and appends to a shared list.
+ *
+ * In strict mode every error, plus the codes in STRICT_ERROR_CODES, is
+ * recorded as an error and thrown as a ParseError.
+ */
+export interface DiagnosticReporter {
+  report(
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    offset?: number
+  ): void;
+}
+
+export function createDiagnosticReporter(
+  file: string,
+  content: string,
+  out: ParseDiagnostic[],
+  strict = false
+): DiagnosticReporter {
+  // Offsets of the first character of every line, built on first use
+  let lineStarts: number[] | null = null;
+
+  const locate = (offset: number): { line: number; column: number } => {
+    if (!lineStarts) {
+      lineStarts = [0];
+      for (let i = 0; i < content.length; i++) {
+        if (content[i] === "\n") lineStarts.push(i + 1);
+      }
+    }
+
+    // Last line start at or before offset
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+  };
+
+  return {
+    report(severity, code, message, offset) {
+      const fatal =
+        strict && (severity === "error" || STRICT_ERROR_CODES.has(code));
+      if (fatal) severity = "error";
+
+      const diagnostic: ParseDiagnostic = { file, severity, code, message };
+      if (offset !== undefined) {
+        const { line, column } = locate(offset);
+        diagnostic.offset = offset;
+        diagnostic.line = line;
+        diagnostic.column = column;
+      }
+      out.push(diagnostic);
+
+      if (fatal) throw new ParseError(diagnostic);
+    },
+  };
+}
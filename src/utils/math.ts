@@ -0,0 +1,82 @@
+// src/utils/math.ts
+
+import type { Vec2 } from "../types/pcb-model";
+
+/**
+ * Number of chord segments used for a full 360 degree arc.
+ * Partial arcs use a proportional share of this, with a small minimum.
+ */
+export const ARC_SEGMENTS_PER_CIRCLE = 64;
+
+const TWO_PI = Math.PI * 2;
+
+/**
+ * Angular sweep (radians, always positive) going from start to end around
+ * center in the requested direction.
+ *
+ * Coincident start and end points are treated as a full circle, which is
+ * what multi quadrant Gerber arcs (G75) mean by them.
+ */
+export function arcSweepAngle(
+  start: Vec2,
+  end: Vec2,
+  center: Vec2,
+  clockwise: boolean
+): number {
+  const a0 = Math.atan2(start.y - center.y, start.x - center.x);
+  const a1 = Math.atan2(end.y - center.y, end.x - center.x);
+
+  let sweep = clockwise ? a0 - a1 : a1 - a0;
+  while (sweep < 0) sweep += TWO_PI;
+  while (sweep > TWO_PI) sweep -= TWO_PI;
+
+  if (sweep < 1e-9) {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    return dx * dx + dy * dy < 1e-12 ? TWO_PI : 0;
+  }
+  return sweep;
+}
+
+/**
+ * Approximate an arc by a polyline.
+ *
+ * The result always begins exactly at start and ends exactly at end, so
+ * consecutive segments of a contour keep sharing their endpoints. The radius
+ * is taken from the start point; small start/end radius mismatches that CAM
+ * rounding produces are blended linearly across the sweep.
+ */
+export function tessellateArc(
+  start: Vec2,
+  end: Vec2,
+  center: Vec2,
+  clockwise: boolean,
+  segmentsPerCircle = ARC_SEGMENTS_PER_CIRCLE
+): Vec2[] {
+  const sweep = arcSweepAngle(start, end, center, clockwise);
+  if (sweep === 0) return [start, end];
+
+  const r0 = Math.hypot(start.x - center.x, start.y - center.y);
+  const r1 = Math.hypot(end.x - center.x, end.y - center.y);
+  const a0 = Math.atan2(start.y - center.y, start.x - center.x);
+  const dir = clockwise ? -1 : 1;
+
+  const segments = Math.max(
+    2,
+    Math.ceil((sweep / TWO_PI) * segmentsPerCircle)
+  );
+
+  const points: Vec2[] = [start];
+  for (let i = 1; i < segments; i++) {
+    const t = i / segments;
+    const theta = a0 + dir * sweep * t;
+    const r = r0 + (r1 - r0) * t;
+    points.push({
+      x: center.x + Math.cos(theta) * r,
+      y: center.y + Math.sin(theta) * r,
+    });
+  }
+  points.push(end);
+
+  return points;
+}
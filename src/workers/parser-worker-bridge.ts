@@ -0,0 +1,248 @@
+// src/workers/parser-worker-bridge.ts
+
+/**
+ * Main thread side of the worker pipeline.
+ *
+ * The zip is posted to a worker that unzips and classifies it, then every
+ * Gerber and drill file is parsed and polygonized as its own task, spread
+ * over a pool of workers. File bytes are moved from the unzipping worker
+ * to the parsing ones, never decoded or copied on the main thread. Only
+ * the final assembly (outline, mask and stackup) runs on the main thread.
+ * The result is the same PcbModelGeometry as loadPcbGeometryFromZip
+ * without workers.
+ *
+ * Progress is reported as files complete, in any order. Aborting
+ * terminates the pool, so running tasks stop at once.
+ */
+
+import type { LoadFromZipOptions } from "../types/options";
+import type { PcbModelGeometry } from "../types/pcb-model";
+import type { ParseDiagnostic } from "../types/diagnostics";
+import type { ParsedDrillData } from "../parse/drill-parser";
+import {
+  assemblePcbGeometry,
+  reportProgress,
+  type ParsedGerberLayer,
+} from "../core/pipeline";
+import { isRenderedRole } from "../geometry/stackup-builder";
+import { ParseError, AbortError, throwIfAborted } from "../utils/error";
+import { decodePolygons, decodeHoles, decodeSlots } from "./transfer";
+import type {
+  WorkerTask,
+  WorkerRequest,
+  WorkerResponse,
+  ClassifyTaskResult,
+  GerberTaskResult,
+  DrillTaskResult,
+} from "./parser-worker";
+
+const MAX_POOL_SIZE = 4;
+
+/**
+ * Load a gerbers.zip like loadPcbGeometryFromZip, with the heavy work in
+ * Web Workers. options.useWorkers may give the pool size.
+ */
+export async function loadPcbGeometryInWorkers(
+  input: File | Blob | ArrayBuffer,
+  options: LoadFromZipOptions = {}
+): Promise<PcbModelGeometry> {
+  const { signal } = options;
+
+  // A caller's ArrayBuffer is copied rather than detached
+  const ownsBuffer = !(input instanceof ArrayBuffer);
+  const zip = input instanceof ArrayBuffer ? input : await input.arrayBuffer();
+  throwIfAborted(signal);
+
+  const pool = new ParserWorkerPool(poolSize(options.useWorkers));
+  const terminate = () => pool.terminate();
+  signal?.addEventListener("abort", terminate);
+  try {
+    // Unzipping and classifying are one task
+    reportProgress(options, "unzip", 0);
+    const classified = await pool.run<ClassifyTaskResult>(
+      { kind: "classify", zip, hints: options.layerHints },
+      ownsBuffer ? [zip] : []
+    );
+    throwIfAborted(signal);
+    reportProgress(options, "classify", 1);
+    const { job } = classified;
+    const strict = options.strict;
+
+    // A task parses its file and, for a rendered Gerber, polygonizes it as
+    // well. Results arrive in any order, so progress counts steps: the first
+    // `count` go to the parse stage, one per polygonized Gerber to the
+    // polygonize stage.
+    const count = classified.gerbers.length + classified.drills.length;
+    const polygonizeSteps = classified.gerbers.filter((g) => isRenderedRole(g.role)).length;
+    let done = 0;
+    let steps = 0;
+    const track = <T extends { name: string }>(task: Promise<T>, polygonized: boolean) =>
+      task.then((r) => {
+        steps += polygonized ? 2 : 1;
+        const item = { name: r.name, index: ++done, count };
+        if (steps <= count) reportProgress(options, "parse", steps / count, item);
+        else reportProgress(options, "polygonize", (steps - count) / polygonizeSteps, item);
+        return r;
+      });
+
+    const [gerbers, drills] = await Promise.all([
+      Promise.all(
+        classified.gerbers.map((g) =>
+          track(
+            pool.run<GerberTaskResult>({ kind: "gerber", ...g, job, strict }, [g.data]),
+            isRenderedRole(g.role)
+          )
+        )
+      ),
+      Promise.all(
+        classified.drills.map((d) =>
+          track(
+            pool.run<DrillTaskResult>({ kind: "drill", ...d, job, strict }, [d.data]),
+            false
+          )
+        )
+      ),
+    ]);
+    throwIfAborted(signal);
+
+    // Diagnostics in file order, as on the main thread
+    const diagnostics: ParseDiagnostic[] = [];
+    const parsedGerbers = gerbers.map((r) => {
+      diagnostics.push(...r.diagnostics);
+      return toParsedGerberLayer(r);
+    });
+    const parsedDrills = drills.map((r): ParsedDrillData => {
+      diagnostics.push(...r.diagnostics);
+      return { name: r.name, holes: decodeHoles(r.holes), slots: decodeSlots(r.slots) };
+    });
+
+    return assemblePcbGeometry(parsedGerbers, parsedDrills, job, options, diagnostics);
+  } catch (err) {
+    // Tasks cut off by the abort reject with the pool's own error
+    if (signal?.aborted) throw err instanceof AbortError ? err : new AbortError();
+    throw err;
+  } finally {
+    signal?.removeEventListener("abort", terminate);
+    pool.terminate();
+  }
+}
+
+function toParsedGerberLayer(r: GerberTaskResult): ParsedGerberLayer {
+  const layer: ParsedGerberLayer = {
+    name: r.name,
+    role: r.role,
+    // Polygons are ready, only the image polarity is still needed
+    primitives: r.primitives ?? {
+      tracks: [],
+      arcs: [],
+      flashes: [],
+      regions: [],
+      blocks: [],
+      imagePolarity: r.imagePolarity,
+    },
+    fileAttributes: r.fileAttributes,
+    polygons: r.polygons ? decodePolygons(r.polygons) : undefined,
+    bounds: r.bounds,
+  };
+  if (r.copperIndex !== undefined) layer.copperIndex = r.copperIndex;
+  return layer;
+}
+
+function poolSize(useWorkers: LoadFromZipOptions["useWorkers"]): number {
+  if (typeof useWorkers === "number" && useWorkers >= 1) {
+    return Math.floor(useWorkers);
+  }
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+interface QueuedTask {
+  request: WorkerRequest;
+  transfer: Transferable[];
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Fixed set of parser workers. Tasks are queued and handed to the next
+ * idle worker.
+ */
+class ParserWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: QueuedTask[] = [];
+  private running = new Map<Worker, QueuedTask>();
+  private nextId = 1;
+
+  constructor(size: number) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL("./parser-worker.ts", import.meta.url), {
+        type: "module",
+      });
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+        this.finish(worker, event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.fail(worker, new Error(event.message || "Parser worker failed"));
+      };
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  run<T>(task: WorkerTask, transfer: Transferable[] = []): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        request: { id: this.nextId++, task },
+        transfer,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  terminate() {
+    for (const worker of this.workers) worker.terminate();
+    const aborted = new Error("Parser worker pool terminated");
+    for (const task of this.running.values()) task.reject(aborted);
+    for (const task of this.queue) task.reject(aborted);
+    this.workers = [];
+    this.idle = [];
+    this.queue = [];
+    this.running.clear();
+  }
+
+  private dispatch() {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request, task.transfer);
+    }
+  }
+
+  private finish(worker: Worker, response: WorkerResponse) {
+    const task = this.running.get(worker);
+    if (!task || task.request.id !== response.id) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (response.ok) {
+      task.resolve(response.result);
+    } else {
+      task.reject(
+        response.diagnostic ? new ParseError(response.diagnostic) : new Error(response.message)
+      );
+    }
+    this.dispatch();
+  }
+
+  private fail(worker: Worker, err: Error) {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if (task) task.reject(err);
+    this.dispatch();
+  }
+}
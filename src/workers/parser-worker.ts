@@ -0,0 +1,169 @@
+// src/workers/parser-worker.ts
+
+/**
+ * Web Worker side of the worker pipeline, see parser-worker-bridge.ts.
+ *
+ * A worker runs one task at a time: unzipping and classifying the zip,
+ * or parsing and polygonizing a single file. File contents travel as
+ * undecoded bytes and geometry as typed arrays, both in the transfer list,
+ * so neither is copied between threads. Texts are decoded by the worker
+ * that parses them.
+ */
+
+import { unzipGerbersZip } from "../io/unzip";
+import { classifyFiles, type LayerHints, type LayerRole } from "../io/file-classifier";
+import type { GerberJob } from "../io/job-file";
+import { normalizeGerberText, normalizeDrillText } from "../io/file-normalizer";
+import { parseGerberLayer, parseDrillLayer } from "../core/pipeline";
+import { isRenderedRole, polygonizeLayer } from "../geometry/stackup-builder";
+import { primitivesBounds, type BoundsMm } from "../geometry/outline-extractor";
+import type { GerberAttributes } from "../parse/gerber-attributes";
+import type { GerberImagePolarity, GerberPrimitives } from "../parse/gerber-parser";
+import type { ParseDiagnostic } from "../types/diagnostics";
+import { ParseError } from "../utils/error";
+import {
+  encodePolygons,
+  encodeHoles,
+  encodeSlots,
+  type EncodedPolygons,
+} from "./transfer";
+
+export type WorkerTask =
+  | { kind: "classify"; zip: ArrayBuffer; hints?: LayerHints }
+  | {
+      kind: "gerber";
+      name: string;
+      role: LayerRole;
+      data: ArrayBuffer; // UTF-8 file content
+      job?: GerberJob;
+      strict?: boolean;
+    }
+  | {
+      kind: "drill";
+      name: string;
+      format: "excellon" | "gerber";
+      data: ArrayBuffer;
+      job?: GerberJob;
+      strict?: boolean;
+    };
+
+export interface ClassifyTaskResult {
+  gerbers: { name: string; role: LayerRole; data: ArrayBuffer }[];
+  drills: { name: string; format: "excellon" | "gerber"; data: ArrayBuffer }[];
+  job?: GerberJob;
+}
+
+export interface GerberTaskResult {
+  name: string;
+  role: LayerRole;
+  fileAttributes: GerberAttributes;
+  copperIndex?: number;
+  imagePolarity?: GerberImagePolarity;
+  // Rendered layers only, see isRenderedRole
+  polygons?: EncodedPolygons;
+  bounds: BoundsMm | null;
+  // Outline and mechanical layers only, the outline is extracted from
+  // their tracks and arcs on the main thread
+  primitives?: GerberPrimitives;
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface DrillTaskResult {
+  name: string;
+  holes: Float64Array; // see encodeHoles
+  slots: Float64Array; // see encodeSlots
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+export type WorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; message: string; diagnostic?: ParseDiagnostic };
+
+const utf8 = new TextDecoder("utf-8");
+
+// The DOM lib types self as Window, only the worker API is used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = (event) => {
+  const { id, task } = event.data;
+  runTask(task).then(
+    ({ result, transfer }) => scope.postMessage({ id, ok: true, result }, transfer),
+    (err: unknown) =>
+      scope.postMessage({
+        id,
+        ok: false,
+        message: err instanceof Error ? err.message : String(err),
+        diagnostic: err instanceof ParseError ? err.diagnostic : undefined,
+      })
+  );
+};
+
+async function runTask(
+  task: WorkerTask
+): Promise<{ result: unknown; transfer: Transferable[] }> {
+  if (task.kind === "classify") {
+    const entries = await unzipGerbersZip(task.zip);
+    const classified = await classifyFiles(entries, task.hints);
+
+    const result: ClassifyTaskResult = { gerbers: [], drills: [], job: classified.job?.job };
+    const transfer: Transferable[] = [];
+    for (const g of classified.gerbers) {
+      const data = await g.rawEntry.arrayBuffer();
+      result.gerbers.push({ name: g.name, role: g.role, data });
+      transfer.push(data);
+    }
+    for (const d of classified.drills) {
+      const data = await d.rawEntry.arrayBuffer();
+      result.drills.push({ name: d.name, format: d.format, data });
+      transfer.push(data);
+    }
+    return { result, transfer };
+  }
+
+  const diagnostics: ParseDiagnostic[] = [];
+  const options = { strict: task.strict };
+  const raw = utf8.decode(task.data);
+
+  if (task.kind === "gerber") {
+    const text = normalizeGerberText(raw);
+    const layer = parseGerberLayer(task.name, task.role, text, task.job, options, diagnostics);
+    // Layers buildPcbGeometry drops are not polygonized, outline and
+    // mechanical layers travel as primitives instead
+    const polygons = isRenderedRole(task.role)
+      ? encodePolygons(polygonizeLayer(layer.primitives))
+      : undefined;
+    const keepPrimitives = task.role === "outline" || task.role === "mechanical";
+
+    const result: GerberTaskResult = {
+      name: layer.name,
+      role: task.role,
+      fileAttributes: layer.fileAttributes,
+      copperIndex: layer.copperIndex,
+      imagePolarity: layer.primitives.imagePolarity,
+      polygons,
+      bounds: primitivesBounds(layer.primitives),
+      primitives: keepPrimitives ? layer.primitives : undefined,
+      diagnostics,
+    };
+    const transfer = polygons ? [polygons.coords.buffer, polygons.rings.buffer] : [];
+    return { result, transfer };
+  }
+
+  const text = task.format === "gerber" ? normalizeGerberText(raw) : normalizeDrillText(raw);
+  const drill = parseDrillLayer(task.name, task.format, text, task.job, options, diagnostics);
+  const result: DrillTaskResult = {
+    name: drill.name,
+    holes: encodeHoles(drill.holes),
+    slots: encodeSlots(drill.slots),
+    diagnostics,
+  };
+  return { result, transfer: [result.holes.buffer, result.slots.buffer] };
+}
@@ -0,0 +1,124 @@
+// src/workers/transfer.ts
+
+import type { DrillHole, DrillSlot, Polygon, Vec2 } from "../types/pcb-model";
+
+/**
+ * Compact encodings of geometry for postMessage.
+ *
+ * Structured cloning an array of { x, y } objects costs an allocation per
+ * point on both sides. Packed into typed arrays, the buffers are moved to
+ * the other thread without copying (pass them in the transfer list).
+ */
+
+/**
+ * Polygons as flat coordinates plus a ring layout.
+ *
+ * rings holds, for each polygon, its ring count followed by the point
+ * count of each ring (outer first, then holes). coords holds x, y pairs
+ * of all rings in the same order.
+ */
+export interface EncodedPolygons {
+  coords: Float64Array;
+  rings: Uint32Array;
+}
+
+export function encodePolygons(polys: Polygon[]): EncodedPolygons {
+  let pointCount = 0;
+  let layoutLength = 0;
+  for (const poly of polys) {
+    layoutLength += 2 + poly.holes.length;
+    pointCount += poly.outer.length;
+    for (const h of poly.holes) pointCount += h.length;
+  }
+
+  const coords = new Float64Array(pointCount * 2);
+  const rings = new Uint32Array(layoutLength);
+  let c = 0;
+  let r = 0;
+
+  const writeRing = (ring: Vec2[]) => {
+    rings[r++] = ring.length;
+    for (const p of ring) {
+      coords[c++] = p.x;
+      coords[c++] = p.y;
+    }
+  };
+
+  for (const poly of polys) {
+    rings[r++] = 1 + poly.holes.length;
+    writeRing(poly.outer);
+    for (const h of poly.holes) writeRing(h);
+  }
+
+  return { coords, rings };
+}
+
+export function decodePolygons(encoded: EncodedPolygons): Polygon[] {
+  const { coords, rings } = encoded;
+  const polys: Polygon[] = [];
+  let c = 0;
+  let r = 0;
+
+  const readRing = (): Vec2[] => {
+    const n = rings[r++];
+    const ring: Vec2[] = new Array(n);
+    for (let i = 0; i < n; i++) {
+      ring[i] = { x: coords[c], y: coords[c + 1] };
+      c += 2;
+    }
+    return ring;
+  };
+
+  while (r < rings.length) {
+    const ringCount = rings[r++];
+    const outer = readRing();
+    const holes: Vec2[][] = [];
+    for (let i = 1; i < ringCount; i++) holes.push(readRing());
+    polys.push({ outer, holes });
+  }
+
+  return polys;
+}
+
+/**
+ * Holes as x, y, diameter, plated (1 / 0) quadruples.
+ */
+export function encodeHoles(holes: DrillHole[]): Float64Array {
+  const out = new Float64Array(holes.length * 4);
+  holes.forEach((h, i) => {
+    out.set([h.x, h.y, h.diameter, h.plated ? 1 : 0], i * 4);
+  });
+  return out;
+}
+
+export function decodeHoles(data: Float64Array): DrillHole[] {
+  const holes: DrillHole[] = [];
+  for (let i = 0; i + 3 < data.length; i += 4) {
+    holes.push({ x: data[i], y: data[i + 1], diameter: data[i + 2], plated: data[i + 3] !== 0 });
+  }
+  return holes;
+}
+
+/**
+ * Slots as start x, start y, end x, end y, width, plated (1 / 0).
+ */
+export function encodeSlots(slots: DrillSlot[]): Float64Array {
+  const out = new Float64Array(slots.length * 6);
+  slots.forEach((s, i) => {
+    out.set([s.start.x, s.start.y, s.end.x, s.end.y, s.width, s.plated ? 1 : 0], i * 6);
+  });
+  return out;
+}
+
+export function decodeSlots(data: Float64Array): DrillSlot[] {
+  const slots: DrillSlot[] = [];
+  for (let i = 0; i + 5 < data.length; i += 6) {
+    slots.push({
+      start: { x: data[i], y: data[i + 1] },
+      end: { x: data[i + 2], y: data[i + 3] },
+      width: data[i + 4],
+      plated: data[i + 5] !== 0,
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,31 @@
+// test/core/pipeline.test.ts
+
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { loadPcbGeometryFromZip } from "../../src/core/pipeline";
+import { gerber } from "../helpers";
+
+async function zipOf(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const name of Object.keys(files)) zip.file(name, files[name]);
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+const EDGE = "%ADD10C,0.1*%\nD10*\nX0Y0D02*\nX10000000Y0D01*\nX10000000Y5000000D01*\nX0Y5000000D01*\nX0Y0D01*";
+
+describe("loadPcbGeometryFromZip", () => {
+  it("lists the diagnostics of every file on the geometry", async () => {
+    const zip = await zipOf({
+      "board.GKO": gerber(EDGE),
+      "board.GTL": gerber("%ADD10C,1*%\nD11*\nX0Y0D03*"),
+      "board.DRL": "M48\nMETRIC\nT1C0.8\n%\nT1\nX1.0Y1.0\nQ7\nM30\n",
+    });
+    const geometry = await loadPcbGeometryFromZip(zip);
+
+    expect(geometry.diagnostics.map((d) => [d.file, d.code, d.line])).toEqual([
+      ["board.GTL", "UNDEFINED_APERTURE", 4], // D11 selected
+      ["board.GTL", "UNDEFINED_APERTURE", 5], // flashed
+      ["board.DRL", "UNKNOWN_COMMAND", 7],
+    ]);
+  });
+});
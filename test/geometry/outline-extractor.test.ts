@@ -0,0 +1,137 @@
+// test/geometry/outline-extractor.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  deriveOutlineFromLayers,
+  extractBoardOutline,
+  primitivesBounds,
+} from "../../src/geometry/outline-extractor";
+import { parseGerberLayer } from "../../src/core/pipeline";
+import type { LayerRole } from "../../src/io/file-classifier";
+import type { Vec2 } from "../../src/types/pcb-model";
+import { area, bounds, gerber } from "../helpers";
+
+const layer = (role: LayerRole, body: string, name = `${role}.gbr`) =>
+  parseGerberLayer(name, role, gerber(`%ADD10C,0.1*%\nD10*\n${body}`), undefined, {}, []);
+
+// Gerber coordinate in the 2.6 format of the helper
+const c = (mm: number) => Math.round(mm * 1e6);
+const move = (x: number, y: number) => `X${c(x)}Y${c(y)}D02*`;
+const draw = (x: number, y: number) => `X${c(x)}Y${c(y)}D01*`;
+
+function signedArea(ring: Vec2[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+describe("extractBoardOutline", () => {
+  it("joins tracks drawn out of order and in both directions", () => {
+    const edges = [
+      move(0, 0), draw(10, 0),
+      move(10, 20), draw(10, 0), // reversed
+      move(0, 20), draw(0, 0),
+      move(0, 20), draw(10, 20),
+    ].join("\n");
+    const outline = extractBoardOutline([layer("outline", edges)])!;
+
+    expect(outline).not.toBeNull();
+    expect(outline.holes).toHaveLength(0);
+    expect(area([outline])).toBeCloseTo(200);
+  });
+
+  it("closes gaps within the tolerance only", () => {
+    const open = [move(0, 0), draw(10, 0), draw(10, 10), draw(0, 10), draw(0, 0.01)].join("\n");
+    expect(extractBoardOutline([layer("outline", open)])).not.toBeNull();
+
+    const gap = [move(0, 0), draw(10, 0), draw(10, 10), draw(0, 10), draw(0, 0.5)].join("\n");
+    expect(extractBoardOutline([layer("outline", gap)])).toBeNull();
+  });
+
+  it("makes loops inside the board edge into holes and ignores loops outside it", () => {
+    const edges = [
+      move(0, 0), draw(30, 0), draw(30, 20), draw(0, 20), draw(0, 0),
+      // cutout
+      move(10, 5), draw(20, 5), draw(20, 15), draw(10, 15), draw(10, 5),
+      // dimension frame drawn beside the board
+      move(40, 0), draw(50, 0), draw(50, 5), draw(40, 5), draw(40, 0),
+    ].join("\n");
+    const outline = extractBoardOutline([layer("outline", edges)])!;
+
+    expect(outline.holes).toHaveLength(1);
+    expect(area([outline])).toBeCloseTo(600 - 100);
+    expect(bounds([outline]).maxX).toBeCloseTo(30);
+    expect(Math.sign(signedArea(outline.outer))).toBe(-Math.sign(signedArea(outline.holes[0])));
+  });
+
+  it("follows arcs such as rounded corners and round cutouts", () => {
+    const edges = [
+      "G75*",
+      move(1, 0), draw(9, 0),
+      `G03${draw(10, 1).replace("D01", `I${c(0)}J${c(1)}D01`)}`,
+      "G01*", draw(10, 10), draw(0, 10), draw(0, 1),
+      `G03${draw(1, 0).replace("D01", `I${c(1)}J${c(0)}D01`)}`,
+      // full circle cutout of radius 2 around (5, 5)
+      move(7, 5),
+      `G03${draw(7, 5).replace("D01", `I${c(-2)}J${c(0)}D01`)}`,
+    ].join("\n");
+    const outline = extractBoardOutline([layer("outline", edges)])!;
+
+    expect(outline.holes).toHaveLength(1);
+    const corners = 2 * (1 - Math.PI / 4);
+    expect(area([outline])).toBeCloseTo(100 - corners - Math.PI * 4, 1);
+  });
+
+  it("uses the mechanical layers only when there is no outline layer", () => {
+    const square = (s: number) =>
+      [move(0, 0), draw(s, 0), draw(s, s), draw(0, s), draw(0, 0)].join("\n");
+
+    const both = extractBoardOutline([
+      layer("mechanical", square(50)),
+      layer("outline", square(10)),
+    ])!;
+    expect(area([both])).toBeCloseTo(100);
+
+    const mechOnly = extractBoardOutline([
+      layer("mechanical", square(50)),
+      layer("top_copper", square(5)),
+    ])!;
+    expect(area([mechOnly])).toBeCloseTo(2500);
+  });
+
+  it("returns null when no layer draws a closed loop", () => {
+    const line = [move(0, 0), draw(10, 0)].join("\n");
+    expect(extractBoardOutline([layer("outline", line)])).toBeNull();
+  });
+});
+
+describe("deriveOutlineFromLayers", () => {
+  it("falls back to the bounding box of everything", () => {
+    const copper = layer("top_copper", [move(0, 0), draw(10, 5)].join("\n"));
+    const b = bounds([deriveOutlineFromLayers([copper])!]);
+    expect(b).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 5 });
+  });
+});
+
+describe("primitivesBounds", () => {
+  it("covers every step and repeat copy", () => {
+    const panel = layer("outline", ["%SRX3Y2I20J10*%", move(0, 0), draw(10, 5), "%SR*%"].join("\n"));
+    expect(primitivesBounds(panel.primitives)).toEqual({ minX: 0, minY: 0, maxX: 50, maxY: 15 });
+  });
+
+  it("rotates a block before placing it", () => {
+    const body = [
+      "%ABD20*%", move(0, 0), draw(10, 5), "%AB*%",
+      "%LR90*%", "D20*", `X${c(100)}Y${c(100)}D03*`,
+    ].join("\n");
+    const b = primitivesBounds(layer("outline", body).primitives)!;
+    expect(b.minX).toBeCloseTo(95);
+    expect(b.maxX).toBeCloseTo(100);
+    expect(b.minY).toBeCloseTo(100);
+    expect(b.maxY).toBeCloseTo(110);
+  });
+});
@@ -0,0 +1,118 @@
+// test/geometry/stackup-builder.test.ts
+
+import { describe, expect, it } from "vitest";
+import { buildPcbGeometry, isRenderedRole } from "../../src/geometry/stackup-builder";
+import { parseGerberLayer } from "../../src/core/pipeline";
+import type { LayerRole } from "../../src/io/file-classifier";
+import type { DrillSlot } from "../../src/types/pcb-model";
+import { gerber } from "../helpers";
+
+const emptyLayer = (role: LayerRole) =>
+  parseGerberLayer(`${role}.gbr`, role, gerber(""), undefined, {}, []);
+
+describe("buildPcbGeometry", () => {
+  it("carries slots from every drill file", () => {
+    const slot = (x: number, plated: boolean): DrillSlot => ({
+      start: { x, y: 0 },
+      end: { x, y: 2 },
+      width: 1,
+      plated,
+    });
+
+    const geometry = buildPcbGeometry({
+      parsedGerbers: [],
+      parsedDrills: [
+        { name: "pth.drl", holes: [], slots: [slot(1, true)] },
+        { name: "npth.drl", holes: [], slots: [slot(5, false)] },
+      ],
+      boardThicknessMm: 1.6,
+    });
+
+    expect(geometry.slots).toEqual([slot(1, true), slot(5, false)]);
+  });
+
+  it("keeps empty legend layers empty", () => {
+    const geometry = buildPcbGeometry({
+      parsedGerbers: [emptyLayer("top_silk"), emptyLayer("bottom_silk")],
+      parsedDrills: [],
+      boardThicknessMm: 1.6,
+    });
+
+    expect(geometry.silkLayers.map((l) => l.polygons)).toEqual([[], []]);
+  });
+
+  it("keeps empty inner copper layers empty", () => {
+    const inner = { ...emptyLayer("inner_copper"), copperIndex: 2 };
+    const geometry = buildPcbGeometry({
+      parsedGerbers: [inner],
+      parsedDrills: [],
+      boardThicknessMm: 1.6,
+    });
+
+    const layers = geometry.copperLayers.filter((l) => l.side === null);
+    expect(layers).toHaveLength(1);
+    expect(layers[0].copperIndex).toBe(2);
+    expect(layers[0].polygons).toEqual([]);
+  });
+
+  it("keeps paste layers apart from copper and mask", () => {
+    const geometry = buildPcbGeometry({
+      parsedGerbers: [emptyLayer("top_paste"), emptyLayer("bottom_paste")],
+      parsedDrills: [],
+      boardThicknessMm: 1.6,
+    });
+
+    expect(geometry.pasteLayers.map((l) => [l.side, l.kind, l.polygons])).toEqual([
+      ["top", "paste", []],
+      ["bottom", "paste", []],
+    ]);
+    expect(geometry.maskLayers).toEqual([]);
+  });
+
+  it("orders copper top, inner layers by index, then bottom", () => {
+    const inner = (copperIndex: number) => ({
+      ...emptyLayer("inner_copper"),
+      name: `in${copperIndex}.gbr`,
+      copperIndex,
+    });
+    const geometry = buildPcbGeometry({
+      parsedGerbers: [
+        emptyLayer("bottom_copper"),
+        inner(3),
+        emptyLayer("top_copper"),
+        inner(2),
+      ],
+      parsedDrills: [],
+      boardThicknessMm: 1.6,
+    });
+
+    expect(geometry.copperLayers.map((l) => l.name)).toEqual([
+      "top_copper.gbr",
+      "in2.gbr",
+      "in3.gbr",
+      "bottom_copper.gbr",
+    ]);
+  });
+});
+
+describe("isRenderedRole", () => {
+  it("accepts the roles buildPcbGeometry polygonizes", () => {
+    const roles: LayerRole[] = [
+      "top_copper",
+      "inner_copper",
+      "bottom_mask",
+      "top_silk",
+      "bottom_paste",
+      "outline",
+      "mechanical",
+      "unknown",
+    ];
+    expect(roles.filter(isRenderedRole)).toEqual([
+      "top_copper",
+      "inner_copper",
+      "bottom_mask",
+      "top_silk",
+      "bottom_paste",
+    ]);
+  });
+});
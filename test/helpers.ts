@@ -0,0 +1,66 @@
+// test/helpers.ts
+
+import type { PcbModelGeometry, Polygon, Vec2 } from "../src/types/pcb-model";
+import type { LayerRole } from "../src/io/file-classifier";
+import type { ParsedDrillData } from "../src/parse/drill-parser";
+import { parseGerberLayer } from "../src/core/pipeline";
+import { buildPcbGeometry } from "../src/geometry/stackup-builder";
+
+/**
+ * Wrap Gerber data words in a 2.6 mm header and an M02 trailer.
+ */
+export function gerber(body: string): string {
+  return `%FSLAX26Y26*%\n%MOMM*%\n${body}\nM02*\n`;
+}
+
+/**
+ * Board geometry from Gerber data words per layer role, each wrapped with
+ * gerber(), and parsed drill files.
+ */
+export function pcbGeometry(
+  layers: Array<[LayerRole, string]>,
+  parsedDrills: ParsedDrillData[] = []
+): PcbModelGeometry {
+  const parsedGerbers = layers.map(([role, body], i) =>
+    parseGerberLayer(`${i}-${role}.gbr`, role, gerber(body), undefined, {}, [])
+  );
+  return buildPcbGeometry({ parsedGerbers, parsedDrills, boardThicknessMm: 1.6 });
+}
+
+function ringArea(ring: Vec2[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Covered area of polygons, holes subtracted. Overlaps count twice.
+ */
+export function area(polys: Polygon[]): number {
+  let total = 0;
+  for (const p of polys) {
+    total += ringArea(p.outer);
+    for (const h of p.holes) total -= ringArea(h);
+  }
+  return total;
+}
+
+export function bounds(polys: Polygon[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of polys) {
+    for (const q of p.outer) {
+      minX = Math.min(minX, q.x);
+      minY = Math.min(minY, q.y);
+      maxX = Math.max(maxX, q.x);
+      maxY = Math.max(maxY, q.y);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
@@ -0,0 +1,102 @@
+// test/io/file-classifier.test.ts
+
+import { describe, expect, it } from "vitest";
+import { classifyFiles } from "../../src/io/file-classifier";
+import type { ZipEntry } from "../../src/io/unzip";
+
+interface FakeEntry extends ZipEntry {
+  reads: string[];
+}
+
+function entry(name: string, content: string): FakeEntry {
+  const reads: string[] = [];
+  return {
+    name,
+    reads,
+    text: async () => {
+      reads.push("text");
+      return content;
+    },
+    head: async (byteCount) => {
+      reads.push(`head:${byteCount}`);
+      return content.slice(0, byteCount);
+    },
+    arrayBuffer: async () => {
+      reads.push("arrayBuffer");
+      return new ArrayBuffer(0);
+    },
+  };
+}
+
+describe("classifyFiles", () => {
+  it("never reads documents and images", async () => {
+    const pdf = entry("docs/drill_map.pdf", "%PDF-1.7 binary");
+    const png = entry("board.png", "\u0089PNG");
+    const result = await classifyFiles([pdf, png]);
+
+    expect(result.ignored).toEqual([pdf, png]);
+    expect(pdf.reads).toEqual([]);
+    expect(png.reads).toEqual([]);
+  });
+
+  it("sniffs only the head and decodes full texts on demand", async () => {
+    const copper = entry(
+      "layer1.gbr",
+      "%TF.FileFunction,Copper,L1,Top*%\n%FSLAX26Y26*%\n%MOMM*%\r\nM02*\n"
+    );
+    const result = await classifyFiles([copper]);
+
+    expect(result.gerbers).toHaveLength(1);
+    expect(result.gerbers[0].role).toBe("top_copper");
+    expect(copper.reads).toEqual(["head:16384"]);
+
+    const text = await result.gerbers[0].getText();
+    await result.gerbers[0].getText();
+    expect(text).not.toContain("\r");
+    expect(copper.reads).toEqual(["head:16384", "text"]);
+  });
+
+  it("prefers content over names and reads unknown extensions", async () => {
+    const drill = entry("fab/out.txt", "M48\nMETRIC\nT1C0.3\n%\nT1\nX1.0Y1.0\nM30\n");
+    const silk = entry("whatever.top", "G04 Layer: Top Overlay*\n%FSLAX24Y24*%\nM02*\n");
+    const result = await classifyFiles([drill, silk]);
+
+    expect(result.drills.map((d) => [d.name, d.format, d.confidence])).toEqual([
+      ["fab/out.txt", "excellon", 0.95],
+    ]);
+    expect(result.gerbers[0].role).toBe("top_silk");
+    expect(result.gerbers[0].confidence).toBe(0.75);
+  });
+
+  it("detects header less Excellon files by their inline tools", async () => {
+    const drill = entry("holes.dat", "T1C0.8\nX10000Y10000\nM30\n");
+    const result = await classifyFiles([drill]);
+    expect(result.drills).toHaveLength(1);
+  });
+
+  it("files Gerber drill data with the drills", async () => {
+    const npth = entry(
+      "board-NPTH-drl.gbr",
+      "%TF.FileFunction,NonPlated,1,2,NPTH*%\n%FSLAX26Y26*%\n%MOMM*%\nM02*\n"
+    );
+    const result = await classifyFiles([npth]);
+
+    expect(result.gerbers).toHaveLength(0);
+    expect(result.drills.map((d) => [d.name, d.format])).toEqual([["board-NPTH-drl.gbr", "gerber"]]);
+  });
+
+  it("classifies solder paste by extension, file function and CAM comment", async () => {
+    const header = "%FSLAX26Y26*%\n%MOMM*%\nM02*\n";
+    const result = await classifyFiles([
+      entry("board.GTP", header),
+      entry("layer7.gbr", `%TF.FileFunction,Paste,Bot*%\n${header}`),
+      entry("layer8.gbr", `G04 Layer: F.Paste*\n${header}`),
+    ]);
+
+    expect(result.gerbers.map((g) => [g.name, g.role])).toEqual([
+      ["board.GTP", "top_paste"],
+      ["layer7.gbr", "bottom_paste"],
+      ["layer8.gbr", "top_paste"],
+    ]);
+  });
+});
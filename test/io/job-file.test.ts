@@ -0,0 +1,55 @@
+// test/io/job-file.test.ts
+
+import { describe, expect, it } from "vitest";
+import { jobFileFunction, parseGerberJobFile } from "../../src/io/job-file";
+
+const KICAD_JOB = JSON.stringify({
+  Header: { GenerationSoftware: { Vendor: "KiCad" } },
+  GeneralSpecs: { BoardThickness: 1.2, LayerNumber: 4, Finish: "ENIG" },
+  FilesAttributes: [
+    { Path: "board-F_Cu.gbr", FileFunction: "Copper,L1,Top", FilePolarity: "Positive" },
+    { Path: "board-In1_Cu.gbr", FileFunction: "Copper,L2,Inr" },
+  ],
+  MaterialStackup: [
+    { Type: "Legend", Color: "White" },
+    { Type: "SolderMask", Color: "Blue", Thickness: 0.01 },
+    { Type: "Copper", Thickness: "0.035" },
+  ],
+});
+
+describe("parseGerberJobFile", () => {
+  it("reads the board, files and stackup", () => {
+    const job = parseGerberJobFile(KICAD_JOB)!;
+
+    expect(job.boardThicknessMm).toBe(1.2);
+    expect(job.copperLayerCount).toBe(4);
+    expect(job.finish).toBe("ENIG");
+    expect(job.soldermaskColor).toBe("Blue");
+    expect(job.silkscreenColor).toBe("White");
+    expect(job.stackup[2].thicknessMm).toBe(0.035);
+    expect(jobFileFunction(job, "gerbers/board-In1_Cu.gbr")).toEqual(["Copper", "L2", "Inr"]);
+  });
+
+  it("returns null for text that is not a job file", () => {
+    expect(parseGerberJobFile("not json")).toBeNull();
+    expect(parseGerberJobFile("[1, 2]")).toBeNull();
+    expect(parseGerberJobFile("null")).toBeNull();
+    expect(parseGerberJobFile('{"Other": 1}')).toBeNull();
+  });
+
+  it("skips malformed sections instead of throwing", () => {
+    const job = parseGerberJobFile(
+      JSON.stringify({
+        GeneralSpecs: "1.6mm",
+        Fabrication: null,
+        FilesAttributes: [null, 3, { Path: 5 }, { Path: "a.gbr", FileFunction: ["Copper"] }],
+        MaterialStackup: { Type: "Copper" },
+      })
+    )!;
+
+    expect(job.boardThicknessMm).toBeUndefined();
+    expect(job.finish).toBeUndefined();
+    expect(job.files).toEqual([{ path: "a.gbr", fileFunction: [], filePolarity: undefined }]);
+    expect(job.stackup).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+// test/parse/aperture-macro.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  evaluateExpression,
+  instantiateMacro,
+  parseApertureMacro,
+} from "../../src/parse/aperture-macro";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { polygonizePrimitives } from "../../src/geometry/polygonizer";
+import type { ParseDiagnostic } from "../../src/types/diagnostics";
+import { area, bounds, gerber } from "../helpers";
+
+const vars = (...values: number[]) =>
+  new Map(values.map((v, i): [number, number] => [i + 1, v]));
+
+describe("evaluateExpression", () => {
+  it("applies the usual precedence with x as multiplication", () => {
+    expect(evaluateExpression("1+2x3", vars())).toBe(7);
+    expect(evaluateExpression("(1+2)X3", vars())).toBe(9);
+    expect(evaluateExpression("10-4/2", vars())).toBe(8);
+  });
+
+  it("reads variables and unary signs", () => {
+    expect(evaluateExpression("$1x2+($3-0.1)/2", vars(1.5, 0, 0.5))).toBeCloseTo(3.2);
+    expect(evaluateExpression("-$2", vars(0, 4))).toBe(-4);
+    expect(evaluateExpression("--1", vars())).toBe(1);
+  });
+
+  it("evaluates undefined variables and division by zero to 0", () => {
+    expect(evaluateExpression("$9+1", vars())).toBe(1);
+    expect(evaluateExpression("1/0", vars())).toBe(0);
+  });
+});
+
+describe("instantiateMacro", () => {
+  it("assigns variables in order and scales lengths", () => {
+    const macro = parseApertureMacro("AMTEST*0 comment*$3=$1x2*1,1,$3,$2,0*")!;
+    expect(macro.name).toBe("TEST");
+
+    const prims = instantiateMacro(macro, [0.5, 1], 25.4);
+    expect(prims).toHaveLength(1);
+    expect(prims[0]).toMatchObject({ kind: "circle", exposure: true });
+    if (prims[0].kind !== "circle") throw new Error("expected a circle");
+    expect(prims[0].diameter).toBeCloseTo(25.4);
+    expect(prims[0].center.x).toBeCloseTo(25.4);
+  });
+
+  it("reads outline points and the trailing rotation", () => {
+    const macro = parseApertureMacro("AMTRI*4,1,3,0,0,1,0,0,1,0,0,45*")!;
+    const [prim] = instantiateMacro(macro, [], 1);
+    if (prim.kind !== "outline") throw new Error("expected an outline");
+    expect(prim.points).toHaveLength(4);
+    expect(prim.rotation).toBe(45);
+  });
+
+  it("skips unknown primitive codes", () => {
+    const macro = parseApertureMacro("AMODD*99,1,2*1,1,1,0,0*")!;
+    expect(instantiateMacro(macro, [], 1).map((p) => p.kind)).toEqual(["circle"]);
+  });
+});
+
+describe("macro flashes", () => {
+  const flashArea = (am: string, ad: string) => {
+    const prims = parseGerberFile("m.gbr", gerber(`${am}\n${ad}\nD10*\nX0Y0D03*`), "top_copper");
+    expect(prims.flashes).toHaveLength(1);
+    expect(prims.flashes[0].shape).toBe("macro");
+    return polygonizePrimitives(prims);
+  };
+
+  it("builds a center line from %AD parameters", () => {
+    const polys = flashArea("%AMRECT*21,1,$1,$2,0,0,0*%", "%ADD10RECT,2X1*%");
+    expect(area(polys)).toBeCloseTo(2);
+    const b = bounds(polys);
+    expect(b.maxX - b.minX).toBeCloseTo(2);
+    expect(b.maxY - b.minY).toBeCloseTo(1);
+  });
+
+  it("rotates primitives around the aperture origin", () => {
+    const polys = flashArea("%AMRECT*21,1,2,1,0,0,90*%", "%ADD10RECT*%");
+    const b = bounds(polys);
+    expect(b.maxX - b.minX).toBeCloseTo(1);
+    expect(b.maxY - b.minY).toBeCloseTo(2);
+  });
+
+  it("cuts exposure off primitives out of the shape built so far", () => {
+    const polys = flashArea("%AMHOLE*21,1,2,2,0,0,0*1,0,1,0,0*%", "%ADD10HOLE*%");
+    expect(polys).toHaveLength(1);
+    expect(polys[0].holes).toHaveLength(1);
+    expect(area(polys)).toBeCloseTo(4 - Math.PI / 4, 1);
+  });
+
+  it("builds a thermal as a ring with four gaps", () => {
+    const polys = flashArea("%AMTH*7,0,0,2,1,0.2,0*%", "%ADD10TH*%");
+    expect(polys).toHaveLength(4);
+    const ring = (Math.PI * (4 - 1)) / 4;
+    expect(area(polys)).toBeLessThan(ring);
+    expect(area(polys)).toBeGreaterThan(ring - 4 * 0.2 * 0.5 - 0.05);
+  });
+
+  it("places each flash of one macro aperture at its own position and rotation", () => {
+    const prims = parseGerberFile(
+      "m.gbr",
+      gerber("%AMRECT*21,1,2,1,0,0,0*%\n%ADD10RECT*%\nD10*\nX0Y0D03*\n%LR90*%\nX5000000Y0D03*"),
+      "top_copper"
+    );
+    expect(prims.flashes[0].macro).toBe(prims.flashes[1].macro);
+
+    const polys = polygonizePrimitives(prims);
+    expect(polys).toHaveLength(2);
+    expect(bounds([polys[0]])).toMatchObject({ minX: -1, maxX: 1, minY: -0.5, maxY: 0.5 });
+    const b = bounds([polys[1]]);
+    expect(b.minX).toBeCloseTo(4.5);
+    expect(b.maxX).toBeCloseTo(5.5);
+    expect(b.maxY - b.minY).toBeCloseTo(2);
+  });
+
+  it("reports an %AD that references an undefined macro", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    parseGerberFile("m.gbr", gerber("%ADD10NOPE*%"), "top_copper", { diagnostics });
+    expect(diagnostics.map((d) => d.code)).toContain("UNDEFINED_MACRO");
+  });
+});
@@ -0,0 +1,163 @@
+// test/parse/drill-parser.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseDrillFile } from "../../src/parse/drill-parser";
+import type { ParseDiagnostic } from "../../src/types/diagnostics";
+
+const holes = (content: string, name = "board.drl") =>
+  parseDrillFile(name, content).holes.map((h) => [h.x, h.y, h.diameter]);
+
+function expectHoles(actual: number[][], expected: number[][]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((hole, i) => {
+    hole.forEach((v, k) => expect(v).toBeCloseTo(expected[i][k], 6));
+  });
+}
+
+describe("parseDrillFile", () => {
+  it("reads a metric header with decimal coordinates", () => {
+    expectHoles(holes("M48\nMETRIC\nT1C0.300\n%\nT1\nX1.5Y-2.25\nM30\n"), [[1.5, -2.25, 0.3]]);
+  });
+
+  it("converts inch files to mm", () => {
+    expectHoles(holes("M48\nINCH\nT1C0.0120\n%\nT1\nX1.0Y0.5\nM30\n"), [[25.4, 12.7, 0.3048]]);
+  });
+
+  it("defaults to 2.4 digits for inch and 3.3 for metric", () => {
+    expectHoles(holes("M48\nINCH,TZ\nT1C0.01\n%\nT1\nX10000Y5000\nM30\n"), [[25.4, 12.7, 0.254]]);
+    expectHoles(holes("M48\nMETRIC,TZ\nT1C0.3\n%\nT1\nX1500Y250\nM30\n"), [[1.5, 0.25, 0.3]]);
+  });
+
+  it("pads LZ coordinates back to the full width", () => {
+    expectHoles(holes("M48\nMETRIC,LZ,000.000\nT1C0.3\n%\nT1\nX0015Y00025\nM30\n"), [[1.5, 0.25, 0.3]]);
+  });
+
+  it("takes the digit format from KiCad and Altium comments", () => {
+    expectHoles(
+      holes(";FORMAT={3:3/ absolute / metric / suppress trailing zeros}\nM48\nMETRIC\nT1C0.3\n%\nT1\nX001500Y0025\nM30\n"),
+      [[1.5, 2.5, 0.3]]
+    );
+    expectHoles(
+      holes(";FILE_FORMAT=2:5\nM48\nINCH,TZ\nT1C0.01\n%\nT1\nX100000Y50000\nM30\n"),
+      [[25.4, 12.7, 0.254]]
+    );
+  });
+
+  it("skips feed and speed parameters in tool definitions", () => {
+    expectHoles(holes("M48\nMETRIC\nT01F00S00C0.800\n%\nT01\nX1.0Y1.0\nM30\n"), [[1, 1, 0.8]]);
+  });
+
+  it("carries modal coordinates over between lines", () => {
+    expectHoles(holes("M48\nMETRIC\nT1C0.3\n%\nT1\nX1.0Y2.0\nX3.0\nY4.0\nM30\n"), [
+      [1, 2, 0.3],
+      [3, 2, 0.3],
+      [3, 4, 0.3],
+    ]);
+  });
+
+  it("switches between absolute and incremental coordinates", () => {
+    expectHoles(holes("M48\nMETRIC\nT1C0.3\n%\nT1\nX1.0Y1.0\nG91\nX1.0Y0\nX1.0Y0\nG90\nX1.0Y1.0\nM30\n"), [
+      [1, 1, 0.3],
+      [2, 1, 0.3],
+      [3, 1, 0.3],
+      [1, 1, 0.3],
+    ]);
+  });
+
+  it("repeats hits with R codes", () => {
+    const pts = holes("M48\nMETRIC\nT1C0.3\n%\nT1\nX0Y0\nR3X1.0Y0\nM30\n");
+    expect(pts.map((p) => p[0])).toEqual([0, 1, 2, 3]);
+  });
+
+  it("switches units with M71 and M72", () => {
+    expectHoles(holes("M48\nMETRIC\nT1C0.3\n%\nT1\nM72\nX1.0Y0\nM71\nX1.0Y0\nM30\n"), [
+      [25.4, 0, 0.3],
+      [1, 0, 0.3],
+    ]);
+  });
+
+  it("defines and selects tools in the body of header less files", () => {
+    expectHoles(holes("METRIC\nT1C0.5\nX1.0Y1.0\nT2C1.0\nX2.0Y2.0\nT1\nX3.0Y3.0\nM30\n"), [
+      [1, 1, 0.5],
+      [2, 2, 1],
+      [3, 3, 0.5],
+    ]);
+  });
+
+  it("stops at M30 and reports coordinates before the units", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const data = parseDrillFile("board.drl", "T1C0.02\nT1\nX1.0Y1.0\nM30\nX2.0Y2.0\n", {
+      diagnostics,
+    });
+    expect(data.holes).toHaveLength(1);
+    expect(data.holes[0].x).toBeCloseTo(25.4);
+    expect(diagnostics.map((d) => d.code)).toEqual(["MISSING_UNITS"]);
+  });
+});
+
+describe("slots", () => {
+  const parse = (body: string) =>
+    parseDrillFile("board.drl", `M48\nMETRIC\nT1C0.8\n%\nT1\n${body}\nM30\n`);
+
+  it("reads G85 canned slots", () => {
+    const data = parse("X1.0Y1.0G85X3.0Y1.0");
+    expect(data.holes).toHaveLength(0);
+    expect(data.slots).toEqual([
+      { start: { x: 1, y: 1 }, end: { x: 3, y: 1 }, width: 0.8, plated: true },
+    ]);
+  });
+
+  it("cuts routed paths between M15 and M16 only", () => {
+    const data = parse("G00X0Y0\nM15\nG01X2.0Y0\nX2.0Y1.0\nM16\nG00X5.0Y5.0\nG01X6.0Y5.0");
+    expect(data.slots.map((s) => [s.start.x, s.start.y, s.end.x, s.end.y])).toEqual([
+      [0, 0, 2, 0],
+      [2, 0, 2, 1],
+    ]);
+  });
+
+  it("tessellates routed arcs from I/J offsets or the A radius", () => {
+    const ij = parse("G00X1.0Y0\nM15\nG03X-1.0Y0I-1.0J0\nM16");
+    const radius = parse("G00X1.0Y0\nM15\nG03X-1.0Y0A1.0\nM16");
+
+    for (const data of [ij, radius]) {
+      expect(data.slots.length).toBeGreaterThan(4);
+      expect(data.slots[0].start).toEqual({ x: 1, y: 0 });
+      expect(data.slots[data.slots.length - 1].end).toEqual({ x: -1, y: 0 });
+      for (const s of data.slots) {
+        expect(Math.hypot(s.end.x, s.end.y)).toBeCloseTo(1);
+        expect(s.end.y).toBeGreaterThanOrEqual(-1e-9);
+      }
+    }
+  });
+
+  it("goes back to drilling after G05", () => {
+    const data = parse("G00X0Y0\nM15\nG01X1.0Y0\nM16\nG05\nX4.0Y4.0");
+    expect(data.slots).toHaveLength(1);
+    expect(data.holes).toEqual([{ x: 4, y: 4, diameter: 0.8, plated: true }]);
+  });
+
+  it("goes back to drilling after M17 or a bare coordinate with the tool up", () => {
+    const m17 = parse("G00X0Y0\nM15\nG01X1.0Y0\nM16\nM17\nX4.0Y4.0");
+    const bare = parse("G00X0Y0\nM15\nG01X1.0Y0\nM16\nX4.0Y4.0\nX5.0Y4.0");
+
+    expect(m17.slots).toHaveLength(1);
+    expect(m17.holes).toEqual([{ x: 4, y: 4, diameter: 0.8, plated: true }]);
+    expect(bare.slots).toHaveLength(1);
+    expect(bare.holes.map((h) => [h.x, h.y])).toEqual([[4, 4], [5, 4]]);
+  });
+
+  it("drills after a G00 move that is not followed by M15", () => {
+    const data = parse("G00X0Y0\nM15\nG01X1.0Y0\nM16\nG00X3.0Y3.0\nX4.0Y4.0");
+    expect(data.slots).toHaveLength(1);
+    expect(data.holes.map((h) => [h.x, h.y])).toEqual([[4, 4]]);
+  });
+
+  it("uses the tool diameter and file plating for the width", () => {
+    const data = parseDrillFile(
+      "board-NPTH.drl",
+      "M48\nMETRIC\nT3C2.0\n%\nT3\nX0Y0G85X0Y4.0\nM30\n"
+    );
+    expect(data.slots[0].width).toBe(2);
+    expect(data.slots[0].plated).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+// test/parse/drill-plating.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseDrillFile } from "../../src/parse/drill-parser";
+import { parseDrillLayer } from "../../src/core/pipeline";
+import { drillFileFunctionPlating } from "../../src/io/content-sniffer";
+import { gerber } from "../helpers";
+
+const plating = (name: string, header: string, body = "T1\nX0Y0") =>
+  parseDrillFile(name, `M48\nMETRIC\n${header}\n%\n${body}\nM30\n`).holes.map((h) => h.plated);
+
+describe("Excellon plating", () => {
+  it("defaults to plated", () => {
+    expect(plating("board.drl", "T1C0.8")).toEqual([true]);
+  });
+
+  it("reads the file name", () => {
+    expect(plating("board-NPTH.drl", "T1C0.8")).toEqual([false]);
+    expect(plating("board-PTH.drl", "T1C0.8")).toEqual([true]);
+    expect(plating("Board-NonPlated.TXT", "T1C0.8")).toEqual([false]);
+  });
+
+  it("reads KiCad ;TYPE= headers over the file name", () => {
+    expect(plating("board-PTH.drl", ";TYPE=NON_PLATED\nT1C0.8")).toEqual([false]);
+    expect(plating("board-NPTH.drl", ";TYPE=MIXED\nT1C0.8")).toEqual([true]);
+  });
+
+  it("reads X2 file functions in comments", () => {
+    expect(plating("board.drl", "; #@! TF.FileFunction,NonPlated,1,2,NPTH\nT1C0.8")).toEqual([false]);
+  });
+
+  it("reads per tool plating from KiCad aperture functions", () => {
+    const header =
+      "; #@! TA.AperFunction,Plated,PTH,ComponentDrill\nT1C0.8\n" +
+      "; #@! TA.AperFunction,NonPlated,NPTH,ComponentDrill\nT2C3.0";
+    expect(plating("board.drl", header, "T1\nX0Y0\nT2\nX1.0Y0")).toEqual([true, false]);
+  });
+
+  it("reads per tool plating from Altium hole size comments", () => {
+    const header =
+      ";Holesize 1 = 35.0 Tolerance = +0.0/-0.0 PLATED MILS Quantity = 1\n" +
+      ";Holesize 2 = 125.0 Tolerance = +0.0/-0.0 NON_PLATED MILS Quantity = 1\n" +
+      "T1C0.889\nT2C3.175";
+    expect(plating("board.TXT", header, "T1\nX0Y0\nT2\nX1.0Y0")).toEqual([true, false]);
+  });
+});
+
+describe("Gerber drill data", () => {
+  it("maps X2 drill file functions to plating", () => {
+    expect(drillFileFunctionPlating(["Plated", "1", "2", "PTH"])).toBe(true);
+    expect(drillFileFunctionPlating(["NonPlated", "1", "2", "NPTH"])).toBe(false);
+    expect(drillFileFunctionPlating(["Copper", "L1", "Top"])).toBeNull();
+  });
+
+  it("turns flashes into holes and draws into slots", () => {
+    const content = gerber(
+      "%TF.FileFunction,NonPlated,1,2,NPTH*%\n%ADD10C,3*%\nD10*\nX1000000Y1000000D03*\n" +
+        "X0Y0D02*\nX5000000Y0D01*"
+    );
+    const data = parseDrillLayer("board-npth.gbr", "gerber", content, undefined, {}, []);
+
+    expect(data.holes).toEqual([{ x: 1, y: 1, diameter: 3, plated: false }]);
+    expect(data.slots).toEqual([
+      { start: { x: 0, y: 0 }, end: { x: 5, y: 0 }, width: 3, plated: false },
+    ]);
+  });
+
+  it("treats Gerber drill data without a file function as plated", () => {
+    const content = gerber("%ADD10C,0.4*%\nD10*\nX0Y0D03*");
+    const data = parseDrillLayer("vias.gbr", "gerber", content, undefined, {}, []);
+    expect(data.holes[0].plated).toBe(true);
+  });
+});
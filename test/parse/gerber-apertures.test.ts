@@ -0,0 +1,111 @@
+// test/parse/gerber-apertures.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { polygonizePrimitivesUnion } from "../../src/geometry/polygonizer";
+import type { ParseDiagnostic } from "../../src/types/diagnostics";
+import { area, bounds, gerber } from "../helpers";
+
+const parse = (body: string, diagnostics?: ParseDiagnostic[]) =>
+  parseGerberFile("ap.gbr", gerber(body), "top_copper", { diagnostics });
+
+const flash = (ad: string) => polygonizePrimitivesUnion(parse(`${ad}\nD10*\nX0Y0D03*`));
+
+describe("standard aperture flashes", () => {
+  it("flashes a horizontal obround as a stadium", () => {
+    const polys = flash("%ADD10O,3X1*%");
+    expect(area(polys)).toBeCloseTo(2 * 1 + Math.PI * 0.25, 1);
+    const b = bounds(polys);
+    expect(b.minX).toBeCloseTo(-1.5);
+    expect(b.maxX).toBeCloseTo(1.5);
+    expect(b.maxY).toBeCloseTo(0.5);
+  });
+
+  it("flashes a vertical obround along Y", () => {
+    const b = bounds(flash("%ADD10O,1X3*%"));
+    expect(b.maxX).toBeCloseTo(0.5);
+    expect(b.maxY).toBeCloseTo(1.5);
+  });
+
+  it("flashes a regular polygon with its first vertex on +X", () => {
+    const polys = flash("%ADD10P,2X4*%");
+    // Square inscribed in a circle of radius 1
+    expect(area(polys)).toBeCloseTo(2);
+    expect(bounds(polys).maxX).toBeCloseTo(1);
+  });
+
+  it("rotates a polygon aperture", () => {
+    const polys = flash("%ADD10P,2X4X45*%");
+    expect(area(polys)).toBeCloseTo(2);
+    expect(bounds(polys).maxX).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("cuts the round hole out of a flash", () => {
+    const polys = flash("%ADD10R,2X2X1*%");
+    expect(polys).toHaveLength(1);
+    expect(polys[0].holes).toHaveLength(1);
+    expect(area(polys)).toBeCloseTo(4 - Math.PI / 4, 1);
+  });
+});
+
+describe("tracks with non circular apertures", () => {
+  it("sweeps a rectangle along a diagonal track", () => {
+    const prims = parse("%ADD10R,1X1*%\nD10*\nX0Y0D02*\nG01X2000000Y2000000D01*");
+    expect(prims.tracks[0].aperture).toEqual({ shape: "R", widthMm: 1, heightMm: 1 });
+
+    const polys = polygonizePrimitivesUnion(prims);
+    // Hull of the two squares: both squares plus the band between them
+    expect(area(polys)).toBeCloseTo(1 + 2 * Math.SQRT2 * Math.SQRT2, 5);
+    expect(bounds(polys)).toMatchObject({ minX: -0.5, minY: -0.5, maxX: 2.5, maxY: 2.5 });
+  });
+
+  it("keeps the square ends of a rectangle on a straight track", () => {
+    const polys = polygonizePrimitivesUnion(
+      parse("%ADD10R,0.5X0.5*%\nD10*\nX0Y0D02*\nG01X2000000Y0D01*")
+    );
+    expect(area(polys)).toBeCloseTo(2.5 * 0.5);
+  });
+
+  it("sweeps an obround like a capsule", () => {
+    const polys = polygonizePrimitivesUnion(
+      parse("%ADD10O,1X1*%\nD10*\nX0Y0D02*\nG01X2000000Y0D01*")
+    );
+    expect(area(polys)).toBeCloseTo(2 + Math.PI / 4, 1);
+  });
+});
+
+describe("arcs with non circular apertures", () => {
+  const HALF_CIRCLE = "G75*\nX1000000Y0D02*\nG03X-1000000Y0I-1000000J0D01*";
+
+  it("records the aperture on the arc and reports it", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const prims = parse(`%ADD10R,0.4X0.4*%\nD10*\n${HALF_CIRCLE}`, diagnostics);
+
+    expect(prims.arcs).toHaveLength(1);
+    expect(prims.arcs[0].aperture).toEqual({ shape: "R", widthMm: 0.4, heightMm: 0.4 });
+    expect(diagnostics.map((d) => d.code)).toEqual(["NON_CIRCULAR_ARC"]);
+  });
+
+  it("sweeps a square aperture along the arc", () => {
+    const polys = polygonizePrimitivesUnion(parse(`%ADD10R,0.4X0.4*%\nD10*\n${HALF_CIRCLE}`));
+
+    // Square corners stick out where a round pen would end in caps
+    const b = bounds(polys);
+    expect(b.minX).toBeCloseTo(-1.2, 2);
+    expect(b.maxX).toBeCloseTo(1.2, 2);
+    expect(b.minY).toBeCloseTo(-0.2, 2);
+    expect(b.maxY).toBeCloseTo(1.2, 1);
+    // A square sweeps 0.4 * (|cos| + |sin|) across the path, 1.6 / PI on
+    // average, over a half circle of radius 1, plus two half squares
+    expect(area(polys)).toBeCloseTo(1.6 + 0.16, 1);
+  });
+
+  it("keeps stroking circular apertures with a round pen", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const prims = parse(`%ADD10C,0.4*%\nD10*\n${HALF_CIRCLE}`, diagnostics);
+
+    expect(prims.arcs[0].aperture).toBeUndefined();
+    expect(diagnostics).toHaveLength(0);
+    expect(bounds(polygonizePrimitivesUnion(prims)).minY).toBeCloseTo(-0.2, 2);
+  });
+});
@@ -0,0 +1,66 @@
+// test/parse/gerber-arcs.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { polygonizePrimitivesUnion } from "../../src/geometry/polygonizer";
+import { area, bounds, gerber } from "../helpers";
+
+const parse = (body: string) => parseGerberFile("arcs.gbr", gerber(body), "top_copper");
+
+describe("circular interpolation", () => {
+  it("emits multi quadrant arcs with signed I/J offsets", () => {
+    const prims = parse("%ADD10C,0.1*%\nD10*\nG75*\nX1000000Y0D02*\nG03X-1000000Y0I-1000000J0D01*");
+
+    expect(prims.tracks).toHaveLength(0);
+    expect(prims.arcs).toHaveLength(1);
+    const arc = prims.arcs[0];
+    expect(arc.center.x).toBeCloseTo(0);
+    expect(arc.center.y).toBeCloseTo(0);
+    expect(arc.clockwise).toBe(false);
+    expect(arc.width).toBeCloseTo(0.1);
+  });
+
+  it("reads a G75 arc back to its start as a full circle", () => {
+    const prims = parse("%ADD10C,0.2*%\nD10*\nG75*\nX1000000Y0D02*\nG02X1000000Y0I-1000000J0D01*");
+    const polys = polygonizePrimitivesUnion(prims);
+
+    // A ring of width 0.2 around radius 1
+    expect(polys).toHaveLength(1);
+    expect(polys[0].holes).toHaveLength(1);
+    expect(area(polys)).toBeCloseTo(2 * Math.PI * 0.2, 1);
+  });
+
+  it("picks the quarter arc center from unsigned offsets in single quadrant mode", () => {
+    const prims = parse("%ADD10C,0.1*%\nD10*\nG74*\nX1000000Y0D02*\nG03X0Y1000000I1000000J0D01*");
+
+    expect(prims.arcs).toHaveLength(1);
+    expect(prims.arcs[0].center.x).toBeCloseTo(0);
+    expect(prims.arcs[0].center.y).toBeCloseTo(0);
+  });
+
+  it("returns to linear interpolation after G01", () => {
+    const prims = parse("%ADD10C,0.1*%\nD10*\nG75*\nG02X1000000Y0I500000J0D01*\nG01X2000000Y0D01*");
+    expect(prims.arcs).toHaveLength(1);
+    expect(prims.tracks).toHaveLength(1);
+  });
+
+  it("strokes arcs when polygonizing", () => {
+    const prims = parse("%ADD10C,0.2*%\nD10*\nG75*\nX1000000Y0D02*\nG03X-1000000Y0I-1000000J0D01*");
+    const polys = polygonizePrimitivesUnion(prims);
+
+    // Half ring plus the two round caps
+    expect(area(polys)).toBeCloseTo(Math.PI * 0.2 + Math.PI * 0.01, 1);
+    expect(bounds(polys).maxY).toBeCloseTo(1.1, 2);
+  });
+
+  it("tessellates arcs inside region contours", () => {
+    // Half disc of radius 1: straight edge along X, arc over the top
+    const prims = parse(
+      "G75*\nG36*\nX-1000000Y0D02*\nG01X1000000Y0D01*\nG03X-1000000Y0I-1000000J0D01*\nG37*"
+    );
+
+    expect(prims.regions).toHaveLength(1);
+    expect(prims.regions[0].boundary.length).toBeGreaterThan(10);
+    expect(area(polygonizePrimitivesUnion(prims))).toBeCloseTo(Math.PI / 2, 2);
+  });
+});
@@ -0,0 +1,91 @@
+// test/parse/gerber-attributes.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseAttributeCommand, withoutAttribute } from "../../src/parse/gerber-attributes";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { parseGerberLayer } from "../../src/core/pipeline";
+import { gerber } from "../helpers";
+
+const parse = (body: string) => parseGerberFile("x2.gbr", gerber(body), "top_copper");
+
+describe("parseAttributeCommand", () => {
+  it("splits the name from the values and decodes escapes", () => {
+    expect(parseAttributeCommand("TF.FileFunction,Copper,L1,Top")).toEqual({
+      kind: "TF",
+      name: ".FileFunction",
+      values: ["Copper", "L1", "Top"],
+    });
+    expect(parseAttributeCommand("TO.N,A\\u002cB")).toEqual({
+      kind: "TO",
+      name: ".N",
+      values: ["A,B"],
+    });
+  });
+
+  it("reads TD with and without a name", () => {
+    expect(parseAttributeCommand("TD.N")).toEqual({ kind: "TD", name: ".N" });
+    expect(parseAttributeCommand("TD")).toEqual({ kind: "TD", name: null });
+  });
+
+  it("rejects other commands and missing names", () => {
+    expect(parseAttributeCommand("TX.Foo")).toBeNull();
+    expect(parseAttributeCommand("TA")).toBeNull();
+  });
+});
+
+describe("withoutAttribute", () => {
+  it("copies instead of mutating and returns the same object when nothing changes", () => {
+    const attrs = { ".N": ["GND"], ".C": ["R1"] };
+    expect(withoutAttribute(attrs, ".N")).toEqual({ ".C": ["R1"] });
+    expect(attrs).toEqual({ ".N": ["GND"], ".C": ["R1"] });
+    expect(withoutAttribute(attrs, ".P")).toBe(attrs);
+    expect(withoutAttribute(attrs, null)).toEqual({});
+  });
+});
+
+describe("attributes on primitives", () => {
+  it("keeps file attributes on the output", () => {
+    const prims = parse("%TF.FileFunction,Soldermask,Bot*%\n%TF.Part,Single*%");
+    expect(prims.fileAttributes).toEqual({
+      ".FileFunction": ["Soldermask", "Bot"],
+      ".Part": ["Single"],
+    });
+  });
+
+  it("attaches aperture attributes from when the aperture was defined", () => {
+    const prims = parse(
+      "%TA.AperFunction,ViaPad*%\n%ADD10C,0.5*%\n%TD.AperFunction*%\n%ADD11C,1*%\n" +
+        "D10*\nX0Y0D03*\nD11*\nX1000000Y0D03*"
+    );
+    expect(prims.flashes[0].attributes).toEqual({ ".AperFunction": ["ViaPad"] });
+    expect(prims.flashes[1].attributes).toBeUndefined();
+  });
+
+  it("overlays object attributes until they are deleted", () => {
+    const prims = parse(
+      "%TA.AperFunction,Conductor*%\n%ADD10C,0.2*%\nD10*\n%TO.N,GND*%\n" +
+        "X0Y0D02*\nX1000000Y0D01*\nX2000000Y0D01*\n%TD.N*%\nX3000000Y0D01*"
+    );
+    const [a, b, c] = prims.tracks;
+
+    expect(a.attributes).toEqual({ ".AperFunction": ["Conductor"], ".N": ["GND"] });
+    // Objects drawn under the same attributes share one dictionary
+    expect(b.attributes).toBe(a.attributes);
+    expect(c.attributes).toEqual({ ".AperFunction": ["Conductor"] });
+  });
+});
+
+describe("parseGerberLayer", () => {
+  it("takes the copper layer number from .FileFunction", () => {
+    const layer = parseGerberLayer(
+      "inner.gbr",
+      "inner_copper",
+      gerber("%TF.FileFunction,Copper,L3,Inr*%"),
+      undefined,
+      {},
+      []
+    );
+    expect(layer.copperIndex).toBe(3);
+    expect(layer.fileAttributes[".FileFunction"]).toEqual(["Copper", "L3", "Inr"]);
+  });
+});
@@ -0,0 +1,85 @@
+// test/parse/gerber-blocks.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import {
+  polygonizePrimitives,
+  polygonizePrimitivesUnion,
+} from "../../src/geometry/polygonizer";
+import type { ParseDiagnostic } from "../../src/types/diagnostics";
+import { area, bounds, gerber } from "../helpers";
+
+const parse = (body: string, diagnostics?: ParseDiagnostic[]) =>
+  parseGerberFile("sr.gbr", gerber(body), "top_copper", { diagnostics });
+
+const PAD = "%ADD10R,1X1*%\nD10*\nX0Y0D03*";
+
+describe("step and repeat", () => {
+  it("stores the content once with one offset per copy", () => {
+    const prims = parse(`%SRX3Y2I5J10*%\n${PAD}\n%SR*%`);
+
+    expect(prims.flashes).toHaveLength(0);
+    expect(prims.blocks).toHaveLength(1);
+    expect(prims.blocks[0].primitives.flashes).toHaveLength(1);
+    expect(prims.blocks[0].offsets).toEqual([
+      { x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 },
+      { x: 0, y: 10 }, { x: 5, y: 10 }, { x: 10, y: 10 },
+    ]);
+  });
+
+  it("polygonizes every copy", () => {
+    const polys = polygonizePrimitivesUnion(parse(`%SRX3Y2I5J10*%\n${PAD}\n%SR*%`));
+    expect(polys).toHaveLength(6);
+    expect(area(polys)).toBeCloseTo(6);
+    expect(bounds(polys)).toEqual({ minX: -0.5, minY: -0.5, maxX: 10.5, maxY: 10.5 });
+  });
+
+  it("draws objects after the closing %SR once", () => {
+    const prims = parse(`%SRX2Y1I5J0*%\n${PAD}\n%SR*%\nX20000000Y0D03*`);
+    expect(prims.flashes).toHaveLength(1);
+    expect(polygonizePrimitives(prims)).toHaveLength(3);
+  });
+
+  it("reports and closes a block left open at the end of the file", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const prims = parse(`%SRX2Y1I5J0*%\n${PAD}`, diagnostics);
+
+    expect(diagnostics.map((d) => d.code)).toContain("UNCLOSED_BLOCK");
+    expect(polygonizePrimitives(prims)).toHaveLength(2);
+  });
+});
+
+describe("block apertures", () => {
+  const BLOCK = "%ADD10R,1X1*%\n%ABD20*%\nD10*\nX0Y0D03*\nX2000000Y0D03*\n%AB*%";
+
+  it("places the block content at each flash", () => {
+    const prims = parse(`${BLOCK}\nD20*\nX0Y0D03*\nX0Y5000000D03*`);
+
+    expect(prims.flashes).toHaveLength(0);
+    expect(prims.blocks.map((b) => b.offsets)).toEqual([[{ x: 0, y: 0 }], [{ x: 0, y: 5 }]]);
+    // Both flashes share the content
+    expect(prims.blocks[0].primitives).toBe(prims.blocks[1].primitives);
+
+    const polys = polygonizePrimitivesUnion(prims);
+    expect(area(polys)).toBeCloseTo(4);
+    const b = bounds(polys);
+    expect(b.maxX).toBeCloseTo(2.5);
+    expect(b.maxY).toBeCloseTo(5.5);
+  });
+
+  it("inverts the content of a block flashed with clear polarity", () => {
+    const square =
+      "G36*\nX-2000000Y-2000000D02*\nG01X4000000Y-2000000D01*\n" +
+      "X4000000Y2000000D01*\nX-2000000Y2000000D01*\nX-2000000Y-2000000D01*\nG37*";
+    const polys = polygonizePrimitivesUnion(parse(`${BLOCK}\n${square}\n%LPC*%\nD20*\nX0Y0D03*`));
+
+    // 6 x 4 square with the two 1 x 1 pads cut out
+    expect(area(polys)).toBeCloseTo(24 - 2);
+    expect(polys[0].holes).toHaveLength(2);
+  });
+
+  it("keeps polarity changes inside the definition to itself", () => {
+    const prims = parse(`%ABD20*%\n%LPC*%\n${PAD}\n%AB*%\nX5000000Y0D03*`);
+    expect(prims.flashes.map((f) => f.polarity)).toEqual(["dark"]);
+  });
+});
@@ -0,0 +1,78 @@
+// test/parse/gerber-format.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+
+const parse = (content: string) => parseGerberFile("fmt.gbr", content, "top_copper");
+const positions = (content: string) =>
+  parse(content).flashes.map((f) => [f.position.x, f.position.y]);
+
+describe("format statement", () => {
+  it("reads leading zero omission", () => {
+    const [[x, y]] = positions("%FSLAX24Y24*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX12345Y-500D03*\nM02*\n");
+    expect(x).toBeCloseTo(1.2345);
+    expect(y).toBeCloseTo(-0.05);
+  });
+
+  it("pads trailing zero omission back to the full width", () => {
+    const [[x, y]] = positions("%FSTAX24Y24*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX0125Y-01D03*\nM02*\n");
+    expect(x).toBeCloseTo(1.25);
+    expect(y).toBeCloseTo(-1);
+  });
+
+  it("uses separate X and Y digit counts", () => {
+    const [[x, y]] = positions("%FSLAX24Y33*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX10000Y1000D03*\nM02*\n");
+    expect(x).toBeCloseTo(1);
+    expect(y).toBeCloseTo(1);
+  });
+
+  it("accumulates incremental coordinates", () => {
+    const pts = positions(
+      "%FSLIX24Y24*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX10000Y0D03*\nX10000Y5000D03*\nM02*\n"
+    );
+    expect(pts[0][0]).toBeCloseTo(1);
+    expect(pts[1][0]).toBeCloseTo(2);
+    expect(pts[1][1]).toBeCloseTo(0.5);
+  });
+
+  it("switches notation with G90 and G91", () => {
+    const pts = positions(
+      "%FSLAX24Y24*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX10000Y0D03*\nG91*\nX10000D03*\nG90*\nX10000D03*\nM02*\n"
+    );
+    expect(pts.map((p) => p[0])).toEqual([1, 2, 1]);
+  });
+
+  it("reads coordinates with an explicit decimal point", () => {
+    const [[x]] = positions("%FSLAX24Y24*%\n%MOMM*%\n%ADD10C,1*%\nD10*\nX1.5Y0D03*\nM02*\n");
+    expect(x).toBeCloseTo(1.5);
+  });
+});
+
+describe("units", () => {
+  it("converts inch coordinates and aperture sizes to mm", () => {
+    const prims = parse("%FSLAX24Y24*%\n%MOIN*%\n%ADD10C,0.01*%\nD10*\nX10000Y0D03*\nM02*\n");
+    expect(prims.flashes[0].position.x).toBeCloseTo(25.4);
+    expect(prims.flashes[0].diameterMm).toBeCloseTo(0.254);
+  });
+
+  it("switches coordinate units with G70 without resizing defined apertures", () => {
+    const prims = parse(
+      "%FSLAX24Y24*%\n%MOMM*%\n%ADD10C,0.5*%\nG70*\nD10*\nX10000Y0D03*\nM02*\n"
+    );
+    expect(prims.flashes[0].diameterMm).toBeCloseTo(0.5);
+    expect(prims.flashes[0].position.x).toBeCloseTo(25.4);
+  });
+
+  it("keeps apertures defined under %MOIN when G71 switches to mm", () => {
+    const prims = parse(
+      "%FSLAX24Y24*%\n%MOIN*%\n%ADD10C,0.01*%\nG71*\nD10*\nX10000Y0D03*\nM02*\n"
+    );
+    expect(prims.flashes[0].diameterMm).toBeCloseTo(0.254);
+    expect(prims.flashes[0].position.x).toBeCloseTo(1);
+  });
+
+  it("rescales apertures defined before the first unit command", () => {
+    const prims = parse("%FSLAX24Y24*%\n%ADD10C,0.01*%\n%MOIN*%\nD10*\nX10000Y0D03*\nM02*\n");
+    expect(prims.flashes[0].diameterMm).toBeCloseTo(0.254);
+  });
+});
@@ -0,0 +1,65 @@
+// test/parse/gerber-lexer.test.ts
+
+import { describe, expect, it } from "vitest";
+import { tokenizeGerber } from "../../src/parse/gerber-lexer";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+
+describe("tokenizeGerber", () => {
+  it("splits several data words on one line", () => {
+    expect(tokenizeGerber("G01*X0Y0D02*X100Y0D01*")).toEqual([
+      { kind: "word", text: "G01", offset: 0 },
+      { kind: "word", text: "X0Y0D02", offset: 4 },
+      { kind: "word", text: "X100Y0D01", offset: 12 },
+    ]);
+  });
+
+  it("groups the words of one extended command", () => {
+    expect(tokenizeGerber("%FSLAX26Y26*MOMM*%")).toEqual([
+      {
+        kind: "extended",
+        offset: 0,
+        words: [
+          { text: "FSLAX26Y26", offset: 1 },
+          { text: "MOMM", offset: 12 },
+        ],
+      },
+    ]);
+  });
+
+  it("joins words broken over several lines and drops blank ones", () => {
+    const tokens = tokenizeGerber("%AMBOX*\n21,1,\n2,1,0,0,0*\n*%\r\nD10*");
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).toMatchObject({
+      kind: "extended",
+      words: [{ text: "AMBOX" }, { text: "21,1,2,1,0,0,0" }],
+    });
+    expect(tokens[1]).toEqual({ kind: "word", text: "D10", offset: 29 });
+  });
+
+  it("keeps offsets pointing at the first character of each word", () => {
+    const content = "  G04 note*\n   M02*";
+    for (const token of tokenizeGerber(content)) {
+      if (token.kind !== "word") continue;
+      expect(content.slice(token.offset, token.offset + token.text.length)).toBe(token.text);
+    }
+  });
+
+  it("keeps unterminated input", () => {
+    expect(tokenizeGerber("%MOMM*%X0Y0D03")).toEqual([
+      { kind: "extended", offset: 0, words: [{ text: "MOMM", offset: 1 }] },
+      { kind: "word", text: "X0Y0D03", offset: 7 },
+    ]);
+  });
+});
+
+describe("parsing tokenized input", () => {
+  it("reads a whole file written on one line", () => {
+    const prims = parseGerberFile(
+      "one-line.gbr",
+      "%FSLAX26Y26*MOMM*%%ADD10C,1*%D10*X0Y0D03*X1000000Y0D03*M02*",
+      "top_copper"
+    );
+    expect(prims.flashes.map((f) => f.position.x)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,59 @@
+// test/parse/gerber-polarity.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { polygonizePrimitivesUnion } from "../../src/geometry/polygonizer";
+import { area, gerber } from "../helpers";
+
+const parse = (body: string) => parseGerberFile("lp.gbr", gerber(body), "top_copper");
+
+// 10 x 10 mm dark square region at the origin
+const SQUARE = "G36*\nX0Y0D02*\nG01X10000000Y0D01*\nX10000000Y10000000D01*\nX0Y10000000D01*\nX0Y0D01*\nG37*";
+
+describe("layer polarity", () => {
+  it("numbers polarity runs and records the polarity of each object", () => {
+    const prims = parse(
+      "%ADD10C,1*%\nD10*\nX0Y0D03*\nX1000000Y0D03*\n%LPC*%\nX2000000Y0D03*\n%LPD*%\nX3000000Y0D03*"
+    );
+
+    expect(prims.flashes.map((f) => f.polarity)).toEqual(["dark", "dark", "clear", "dark"]);
+    expect(prims.flashes.map((f) => f.polarityRun)).toEqual([0, 0, 1, 2]);
+  });
+
+  it("does not open a new run when the polarity does not change", () => {
+    const prims = parse("%ADD10C,1*%\nD10*\nX0Y0D03*\n%LPD*%\nX1000000Y0D03*");
+    expect(prims.flashes.map((f) => f.polarityRun)).toEqual([0, 0]);
+  });
+
+  it("subtracts clear objects from the dark image below them", () => {
+    const polys = polygonizePrimitivesUnion(
+      parse(`${SQUARE}\n%LPC*%\n%ADD10R,2X2*%\nD10*\nX5000000Y5000000D03*`)
+    );
+
+    expect(polys).toHaveLength(1);
+    expect(polys[0].holes).toHaveLength(1);
+    expect(area(polys)).toBeCloseTo(100 - 4);
+  });
+
+  it("draws dark objects over an earlier clear run", () => {
+    const polys = polygonizePrimitivesUnion(
+      parse(
+        `${SQUARE}\n%LPC*%\n%ADD10R,4X4*%\nD10*\nX5000000Y5000000D03*\n` +
+          "%LPD*%\n%ADD11R,2X2*%\nD11*\nX5000000Y5000000D03*"
+      )
+    );
+
+    // Square with a 4 x 4 hole, then a 2 x 2 pad inside the hole
+    expect(polys).toHaveLength(2);
+    expect(area(polys)).toBeCloseTo(100 - 16 + 4);
+  });
+
+  it("ignores clear objects with nothing drawn below them", () => {
+    const polys = polygonizePrimitivesUnion(
+      parse("%LPC*%\n%ADD10C,1*%\nD10*\nX0Y0D03*\n%LPD*%\nD10*\nX5000000Y0D03*")
+    );
+
+    expect(polys).toHaveLength(1);
+    expect(area(polys)).toBeCloseTo(Math.PI / 4, 1);
+  });
+});
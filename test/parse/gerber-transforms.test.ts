@@ -0,0 +1,75 @@
+// test/parse/gerber-transforms.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { polygonizePrimitivesUnion } from "../../src/geometry/polygonizer";
+import { area, bounds, gerber } from "../helpers";
+
+const parse = (body: string) => parseGerberFile("lm.gbr", gerber(body), "top_copper");
+const flashAt = (x: number, y: number) => `X${x * 1e6}Y${y * 1e6}D03*`;
+
+describe("aperture transformations", () => {
+  it("rotates a flash around its own origin with %LR", () => {
+    const prims = parse(`%ADD10R,2X1*%\n%LR90*%\nD10*\n${flashAt(5, 0)}`);
+    expect(prims.flashes[0].position).toEqual({ x: 5, y: 0 });
+
+    const b = bounds(polygonizePrimitivesUnion(prims));
+    expect(b.minX).toBeCloseTo(4.5);
+    expect(b.maxX).toBeCloseTo(5.5);
+    expect(b.minY).toBeCloseTo(-1);
+    expect(b.maxY).toBeCloseTo(1);
+  });
+
+  it("mirrors a flash with %LM", () => {
+    // Triangle with its first vertex on +X
+    const plain = bounds(polygonizePrimitivesUnion(parse(`%ADD10P,2X3*%\nD10*\n${flashAt(0, 0)}`)));
+    const mirrored = bounds(
+      polygonizePrimitivesUnion(parse(`%ADD10P,2X3*%\n%LMX*%\nD10*\n${flashAt(0, 0)}`))
+    );
+
+    expect(plain.maxX).toBeCloseTo(1);
+    expect(mirrored.minX).toBeCloseTo(-1);
+    expect(mirrored.maxX).toBeCloseTo(0.5);
+  });
+
+  it("scales flashes and track widths with %LS", () => {
+    const prims = parse(`%ADD10C,1*%\n%LS2*%\nD10*\n${flashAt(0, 0)}\nX0Y0D02*\nX5000000Y0D01*`);
+
+    expect(prims.tracks[0].width).toBeCloseTo(2);
+    const flash = polygonizePrimitivesUnion({ ...prims, tracks: [] });
+    expect(area(flash)).toBeCloseTo(Math.PI, 1);
+  });
+
+  it("drops the transform once the settings are back to the identity", () => {
+    const prims = parse(`%ADD10R,2X1*%\n%LR90*%\nD10*\n${flashAt(0, 0)}\n%LR0*%\n${flashAt(5, 0)}`);
+    expect(prims.flashes[0].transform).toBeDefined();
+    expect(prims.flashes[1].transform).toBeUndefined();
+  });
+});
+
+describe("legacy image commands", () => {
+  it("mirrors coordinates and flips arc direction with %MI", () => {
+    const prims = parse(
+      `%MIA1*%\n%ADD10C,0.1*%\nD10*\n${flashAt(3, 1)}\nG75*\nX1000000Y0D02*\nG03X-1000000Y0I-1000000J0D01*`
+    );
+
+    expect(prims.flashes[0].position).toEqual({ x: -3, y: 1 });
+    expect(prims.arcs[0].start).toEqual({ x: -1, y: 0 });
+    expect(prims.arcs[0].clockwise).toBe(true);
+  });
+
+  it("scales with %SF and then offsets with %OF", () => {
+    const prims = parse(`%SFA2B0.5*%\n%OFA1B-1*%\n%ADD10C,1*%\nD10*\n${flashAt(3, 4)}`);
+    expect(prims.flashes[0].position).toEqual({ x: 7, y: 1 });
+  });
+
+  it("swaps the axes with %AS", () => {
+    const prims = parse(`%ASAYBX*%\n%ADD10C,1*%\nD10*\n${flashAt(3, 4)}`);
+    expect(prims.flashes[0].position).toEqual({ x: 4, y: 3 });
+  });
+
+  it("marks a negative image from %IPNEG", () => {
+    expect(parse("%IPNEG*%").imagePolarity).toBe("negative");
+    expect(parse("%IPPOS*%").imagePolarity).toBeUndefined();
+  });
+});
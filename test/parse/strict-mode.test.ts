@@ -0,0 +1,101 @@
+// test/parse/strict-mode.test.ts
+
+import { describe, expect, it } from "vitest";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { parseDrillFile } from "../../src/parse/drill-parser";
+import type { DiagnosticCode, ParseDiagnostic } from "../../src/types/diagnostics";
+import { ParseError } from "../../src/utils/error";
+import { gerber } from "../helpers";
+
+const HEADER = "%FSLAX26Y26*%\n%MOMM*%\n";
+
+function strictError(content: string): ParseError {
+  try {
+    parseGerberFile("strict.gbr", content, "top_copper", { strict: true });
+  } catch (err) {
+    if (err instanceof ParseError) return err;
+    throw err;
+  }
+  throw new Error("expected a ParseError");
+}
+
+const rejections: Array<[string, DiagnosticCode, string]> = [
+  ["an undefined aperture", "UNDEFINED_APERTURE", gerber("D11*")],
+  ["a draw without an aperture", "UNDEFINED_APERTURE", gerber("X0Y0D02*\nX1000000Y0D01*")],
+  [
+    "a flash inside a region",
+    "FLASH_IN_REGION",
+    gerber("%ADD10C,1*%\nD10*\nG36*\nX0Y0D02*\nX1000000Y0D03*\nG37*"),
+  ],
+  ["coordinates before %FS", "MISSING_FORMAT", "%MOMM*%\n%ADD10C,1*%\nD10*\nX0Y0D03*\nM02*\n"],
+  ["coordinates before %MO", "MISSING_UNITS", "%FSLAX26Y26*%\n%ADD10C,1*%\nD10*\nX0Y0D03*\nM02*\n"],
+  [
+    "an unclosed region",
+    "UNCLOSED_REGION",
+    gerber("G36*\nX0Y0D02*\nX1000000Y0D01*\nX1000000Y1000000D01*\nX0Y0D01*"),
+  ],
+  [
+    "an arc drawn with a rectangle",
+    "NON_CIRCULAR_ARC",
+    gerber("%ADD10R,1X1*%\nD10*\nG75*\nX0Y0D02*\nG03X2000000Y0I1000000J0D01*"),
+  ],
+  ["an unknown G code", "UNSUPPORTED_COMMAND", gerber("G99*")],
+  ["an unknown extended command", "UNSUPPORTED_COMMAND", `${HEADER}%ZZFOO*%\nM02*\n`],
+  ["text that is not a command", "UNKNOWN_COMMAND", gerber("Q12*")],
+  ["a reserved D code", "UNKNOWN_COMMAND", gerber("X0Y0D05*")],
+  ["a missing M02", "MISSING_END", `${HEADER}%ADD10C,1*%\n`],
+];
+
+describe("strict mode", () => {
+  it.each(rejections)("rejects %s", (_what, code, content) => {
+    const err = strictError(content);
+    expect(err.code).toBe(code);
+    expect(err.diagnostic.severity).toBe("error");
+    expect(err.file).toBe("strict.gbr");
+  });
+
+  it.each(rejections)("only reports %s without strict", (_what, code, content) => {
+    const diagnostics: ParseDiagnostic[] = [];
+    expect(() =>
+      parseGerberFile("lenient.gbr", content, "top_copper", { diagnostics })
+    ).not.toThrow();
+    expect(diagnostics.map((d) => d.code)).toContain(code);
+  });
+
+  it("locates the offending word", () => {
+    const err = strictError(`${HEADER}%ADD10C,1*%\nD10*\nX0Y0D03*\nG99*\nM02*\n`);
+    expect(err.diagnostic.line).toBe(6);
+    expect(err.diagnostic.column).toBe(1);
+    expect(err.message).toContain("strict.gbr:6:1");
+  });
+
+  it("accepts a conforming file", () => {
+    const content = gerber(
+      "%TF.FileFunction,Copper,L1,Top*%\n%ADD10C,1*%\nG04 comment*\nD10*\nX0Y0D03*\nG01*\nX1000000Y0D01*"
+    );
+    const prims = parseGerberFile("ok.gbr", content, "top_copper", { strict: true });
+    expect(prims.flashes).toHaveLength(1);
+    expect(prims.tracks).toHaveLength(1);
+  });
+
+  it("reports D codes above 999 like any other aperture", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const prims = parseGerberFile(
+      "big.gbr",
+      gerber("%ADD1000C,1*%\nD1000*\nX0Y0D03*"),
+      "top_copper",
+      { diagnostics }
+    );
+    expect(diagnostics).toEqual([]);
+    expect(prims.flashes).toHaveLength(1);
+  });
+
+  it("rejects drill hits with an undefined tool", () => {
+    const drill = "M48\nMETRIC,TZ,000.000\nT1C0.8\n%\nT2\nX1.0Y1.0\nM30\n";
+    expect(() => parseDrillFile("strict.drl", drill, { strict: true })).toThrow(ParseError);
+
+    const diagnostics: ParseDiagnostic[] = [];
+    parseDrillFile("lenient.drl", drill, { diagnostics });
+    expect(diagnostics.map((d) => d.code)).toContain("UNDEFINED_TOOL");
+  });
+});
@@ -0,0 +1,79 @@
+// test/render/explode.test.ts
+// @vitest-environment jsdom
+
+import { describe, expect, it } from "vitest";
+import { buildPcbScene } from "../../src/render/three/scene-builder";
+import { ExplodedView } from "../../src/render/three/explode";
+import type { DrillSlot } from "../../src/types/pcb-model";
+import { pcbGeometry } from "../helpers";
+
+const EDGE = "%ADD10C,0.1*%\nD10*\nX0Y0D02*\nX10000000Y0D01*\nX10000000Y5000000D01*\nX0Y5000000D01*\nX0Y0D01*";
+const PAD = "%ADD10R,1X1*%\nD10*\nX2000000Y2000000D03*";
+const inner = (n: number) => `%TF.FileFunction,Copper,L${n},Inr*%\n${PAD}`;
+
+const slot: DrillSlot = { start: { x: 6, y: 1 }, end: { x: 8, y: 1 }, width: 0.8, plated: true };
+
+function explodedScene() {
+  const geometry = pcbGeometry(
+    [
+      ["outline", EDGE],
+      ["top_copper", PAD],
+      ["inner_copper", inner(2)],
+      ["inner_copper", inner(3)],
+      ["bottom_copper", PAD],
+      ["top_mask", PAD],
+      ["bottom_silk", PAD],
+    ],
+    [{ name: "board.drl", holes: [{ x: 4, y: 3, diameter: 0.8, plated: true }], slots: [slot] }]
+  );
+  const { layerMeshes } = buildPcbScene(geometry, { useBakedLayers: false });
+  const halfThickness = (geometry.thicknessMm * 0.1) / 2;
+  return { layerMeshes, view: new ExplodedView(layerMeshes, 1, halfThickness) };
+}
+
+// Mesh z offsets by id, without the layer name of outer layers. The
+// per-layer meshes sit at z 0 in the assembled board.
+function offsets(layerMeshes: Map<string, { position: { z: number } }>) {
+  const byId: Record<string, number> = {};
+  for (const [id, mesh] of layerMeshes.entries()) {
+    const key = id.startsWith("copper:inner:") ? id : id.split(":").slice(0, 2).join(":");
+    byId[key] = mesh.position.z;
+  }
+  return byId;
+}
+
+describe("ExplodedView", () => {
+  it("gives every layer, the body, drills and slots their own step", () => {
+    const { layerMeshes, view } = explodedScene();
+    view.setTarget(1);
+    view.update(1);
+
+    const z = offsets(layerMeshes);
+    expect(z["board"]).toBe(0);
+    expect(z["copper:top"]).toBe(1);
+    expect(z["mask:top"]).toBe(2);
+    expect(z["copper:bottom"]).toBe(-1);
+    expect(z["silk:bottom"]).toBe(-3);
+    expect(z["drills"]).toBe(5);
+    expect(z["slots"]).toBe(6);
+    // Inner layers by depth, a third of the board thickness apart
+    expect(z["copper:inner:2-inner_copper.gbr"]).toBeCloseTo(1 / 3, 1);
+    expect(z["copper:inner:3-inner_copper.gbr"]).toBeCloseTo(-1 / 3, 1);
+  });
+
+  it("eases towards the target and back to the assembled board", () => {
+    const { layerMeshes, view } = explodedScene();
+    view.setTarget(2);
+    view.update(0.05);
+    const partial = offsets(layerMeshes)["silk:bottom"];
+    expect(partial).toBeLessThan(0);
+    expect(partial).toBeGreaterThan(-6);
+
+    view.update(1);
+    expect(offsets(layerMeshes)["silk:bottom"]).toBe(-6);
+
+    view.setTarget(0);
+    view.update(1);
+    expect(Object.values(offsets(layerMeshes)).every((z) => z === 0)).toBe(true);
+  });
+});
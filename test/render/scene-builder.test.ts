@@ -0,0 +1,131 @@
+// test/render/scene-builder.test.ts
+// @vitest-environment jsdom
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { buildPcbScene } from "../../src/render/three/scene-builder";
+import type { ParsedDrillData } from "../../src/parse/drill-parser";
+import type { LayerRole } from "../../src/io/file-classifier";
+import { pcbGeometry } from "../helpers";
+
+// L-shaped board, 10 x 10 mm with the top right quarter cut away
+const L_EDGE =
+  "%ADD10C,0.1*%\nD10*\nX0Y0D02*\nX10000000Y0D01*\nX10000000Y5000000D01*\n" +
+  "X5000000Y5000000D01*\nX5000000Y10000000D01*\nX0Y10000000D01*\nX0Y0D01*";
+
+const DRILLS: ParsedDrillData = {
+  name: "board.drl",
+  holes: [{ x: 2, y: 2, diameter: 1, plated: true }],
+  slots: [{ start: { x: 2, y: 7 }, end: { x: 3, y: 7 }, width: 0.8, plated: false }],
+};
+
+// 10 x 5 mm board
+const EDGE = "%ADD10C,0.1*%\nD10*\nX0Y0D02*\nX10000000Y0D01*\nX10000000Y5000000D01*\nX0Y5000000D01*\nX0Y0D01*";
+const TWO_PADS = "%ADD10R,1X1*%\nD10*\nX2000000Y2000000D03*\nX6000000Y2000000D03*";
+
+/**
+ * Area of the triangles lying in the highest z plane of a mesh, in units².
+ */
+function topFaceArea(mesh: THREE.Mesh | undefined): number {
+  expect(mesh).toBeDefined();
+  const geom = mesh!.geometry.index ? mesh!.geometry.toNonIndexed() : mesh!.geometry;
+  const pos = geom.getAttribute("position");
+  let maxZ = -Infinity;
+  for (let i = 0; i < pos.count; i++) maxZ = Math.max(maxZ, pos.getZ(i));
+
+  let total = 0;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  for (let i = 0; i < pos.count; i += 3) {
+    a.fromBufferAttribute(pos, i);
+    b.fromBufferAttribute(pos, i + 1);
+    c.fromBufferAttribute(pos, i + 2);
+    if ([a, b, c].some((v) => Math.abs(v.z - maxZ) > 1e-6)) continue;
+    total += new THREE.Triangle(a, b, c).getArea();
+  }
+  return total;
+}
+
+function shapesOf(mesh: THREE.Mesh | undefined): THREE.Shape[] {
+  expect(mesh?.geometry).toBeInstanceOf(THREE.ExtrudeGeometry);
+  const shapes = (mesh!.geometry as THREE.ExtrudeGeometry).parameters.shapes;
+  return Array.isArray(shapes) ? shapes : [shapes];
+}
+
+describe("board body", () => {
+  it("extrudes the FR4 from the outline with the holes and slots cut out", () => {
+    const geometry = pcbGeometry([["outline", L_EDGE]], [DRILLS]);
+    const { layerMeshes } = buildPcbScene(geometry, { useBakedLayers: false });
+
+    const shapes = shapesOf(layerMeshes.get("board"));
+    expect(shapes).toHaveLength(1);
+    expect(shapes[0].holes).toHaveLength(2);
+
+    // 75 mm² at 0.1 units per mm
+    const { shape } = shapes[0].extractPoints(1);
+    expect(Math.abs(THREE.ShapeUtils.area(shape))).toBeCloseTo(0.75, 2);
+  });
+
+  it("spans the board thickness around z 0", () => {
+    const geometry = pcbGeometry([["outline", L_EDGE]], [DRILLS]);
+    const { layerMeshes } = buildPcbScene(geometry, { useBakedLayers: false });
+
+    const body = layerMeshes.get("board")!.geometry;
+    body.computeBoundingBox();
+    expect(body.boundingBox!.min.z).toBeCloseTo(-0.08, 5);
+    expect(body.boundingBox!.max.z).toBeCloseTo(0.08, 5);
+  });
+});
+
+describe("soldermask", () => {
+  it("covers the outline except the openings", () => {
+    const geometry = pcbGeometry([["outline", EDGE], ["top_mask", TWO_PADS]]);
+    const { layerMeshes } = buildPcbScene(geometry, { useBakedLayers: false });
+
+    // 50 mm² board minus two 1 mm² openings, at 0.1 units per mm
+    const mask = layerMeshes.get("mask:top:1-top_mask.gbr");
+    expect(topFaceArea(mask)).toBeCloseTo(0.48, 4);
+  });
+
+  it("covers the whole board when the mask layer has no openings", () => {
+    const geometry = pcbGeometry([["outline", EDGE], ["top_mask", ""]]);
+    expect(geometry.maskLayers[0].polygons).toEqual([]);
+
+    const { layerMeshes } = buildPcbScene(geometry, { useBakedLayers: false });
+    const mask = layerMeshes.get("mask:top:1-top_mask.gbr");
+    expect(topFaceArea(mask)).toBeCloseTo(0.5, 4);
+  });
+});
+
+describe("solder paste", () => {
+  const layers: Array<[LayerRole, string]> = [
+    ["outline", EDGE],
+    ["top_copper", TWO_PADS],
+    ["top_paste", TWO_PADS],
+  ];
+
+  it("adds deposits only with showPaste", () => {
+    const geometry = pcbGeometry(layers);
+    const hidden = buildPcbScene(geometry, { useBakedLayers: false });
+    expect(Array.from(hidden.layerMeshes.keys()).some((id) => id.startsWith("paste:"))).toBe(false);
+
+    const shown = buildPcbScene(geometry, { useBakedLayers: false, showPaste: true });
+    expect(topFaceArea(shown.layerMeshes.get("paste:top:2-top_paste.gbr"))).toBeCloseTo(0.02, 4);
+  });
+
+  it("stacks the deposits on the copper pads", () => {
+    const { layerMeshes } = buildPcbScene(pcbGeometry(layers), {
+      useBakedLayers: false,
+      showPaste: true,
+    });
+
+    const copper = layerMeshes.get("copper:top:1-top_copper.gbr")!.geometry;
+    const paste = layerMeshes.get("paste:top:2-top_paste.gbr")!.geometry;
+    copper.computeBoundingBox();
+    paste.computeBoundingBox();
+    expect(paste.boundingBox!.min.z).toBeGreaterThanOrEqual(copper.boundingBox!.max.z);
+    // 0.12 mm stencil
+    expect(paste.boundingBox!.max.z - paste.boundingBox!.min.z).toBeCloseTo(0.012, 5);
+  });
+});
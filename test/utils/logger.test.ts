@@ -0,0 +1,77 @@
+// test/utils/logger.test.ts
+
+import { describe, expect, it } from "vitest";
+import { createDiagnosticReporter } from "../../src/utils/logger";
+import { parseGerberFile } from "../../src/parse/gerber-parser";
+import { parseDrillFile } from "../../src/parse/drill-parser";
+import type { ParseDiagnostic } from "../../src/types/diagnostics";
+import { ParseError } from "../../src/utils/error";
+import { gerber } from "../helpers";
+
+describe("createDiagnosticReporter", () => {
+  it("resolves offsets to 1 based lines and columns", () => {
+    const out: ParseDiagnostic[] = [];
+    const reporter = createDiagnosticReporter("a.gbr", "G04*\r\nD10*\n  X1Y1D03*", out);
+
+    reporter.report("warning", "UNKNOWN_COMMAND", "first", 0);
+    reporter.report("warning", "UNKNOWN_COMMAND", "second", 6);
+    reporter.report("warning", "UNKNOWN_COMMAND", "third", 13);
+
+    expect(out.map((d) => [d.line, d.column])).toEqual([[1, 1], [2, 1], [3, 3]]);
+    expect(out[2]).toEqual({
+      file: "a.gbr",
+      severity: "warning",
+      code: "UNKNOWN_COMMAND",
+      message: "third",
+      offset: 13,
+      line: 3,
+      column: 3,
+    });
+  });
+
+  it("leaves the position out when there is no offset", () => {
+    const out: ParseDiagnostic[] = [];
+    createDiagnosticReporter("a.gbr", "", out).report("warning", "MISSING_END", "no end");
+    expect(out).toEqual([
+      { file: "a.gbr", severity: "warning", code: "MISSING_END", message: "no end" },
+    ]);
+  });
+
+  it("records and throws strict errors, keeps other warnings", () => {
+    const out: ParseDiagnostic[] = [];
+    const reporter = createDiagnosticReporter("a.gbr", "", out, true);
+
+    expect(() => reporter.report("warning", "MISSING_END", "no end")).toThrow(ParseError);
+    expect(out[0].severity).toBe("error");
+  });
+});
+
+describe("parser diagnostics", () => {
+  it("locate Gerber words and keep parsing after them", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const prims = parseGerberFile(
+      "d.gbr",
+      gerber("%ADD10C,1*%\nD10*\nX0Y0D03*\nD11*\nX1000000Y0D03*"),
+      "top_copper",
+      { diagnostics }
+    );
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      file: "d.gbr",
+      severity: "error",
+      code: "UNDEFINED_APERTURE",
+      line: 6,
+      column: 1,
+    });
+    expect(prims.flashes).toHaveLength(2);
+  });
+
+  it("locate drill lines", () => {
+    const diagnostics: ParseDiagnostic[] = [];
+    parseDrillFile("d.drl", "M48\nMETRIC\nT1C0.8\n%\nT1\nX1.0Y1.0\nQ7\nM30\n", { diagnostics });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: "UNKNOWN_COMMAND", line: 7, column: 1 });
+  });
+});
@@ -0,0 +1,47 @@
+// test/utils/math.test.ts
+
+import { describe, expect, it } from "vitest";
+import { arcSweepAngle, tessellateArc } from "../../src/utils/math";
+
+const origin = { x: 0, y: 0 };
+
+describe("arcSweepAngle", () => {
+  it("measures the sweep in the requested direction", () => {
+    const start = { x: 1, y: 0 };
+    const end = { x: 0, y: 1 };
+    expect(arcSweepAngle(start, end, origin, false)).toBeCloseTo(Math.PI / 2);
+    expect(arcSweepAngle(start, end, origin, true)).toBeCloseTo((3 * Math.PI) / 2);
+  });
+
+  it("treats coincident endpoints as a full circle", () => {
+    const p = { x: 1, y: 0 };
+    expect(arcSweepAngle(p, p, origin, true)).toBeCloseTo(2 * Math.PI);
+  });
+});
+
+describe("tessellateArc", () => {
+  it("starts and ends exactly on the endpoints and stays on the circle", () => {
+    const start = { x: 2, y: 0 };
+    const end = { x: -2, y: 0 };
+    const pts = tessellateArc(start, end, origin, false);
+
+    expect(pts[0]).toBe(start);
+    expect(pts[pts.length - 1]).toBe(end);
+    expect(pts).toHaveLength(33);
+    for (const p of pts) {
+      expect(Math.hypot(p.x, p.y)).toBeCloseTo(2);
+      expect(p.y).toBeGreaterThanOrEqual(-1e-9);
+    }
+  });
+
+  it("goes below the center when clockwise", () => {
+    const pts = tessellateArc({ x: 2, y: 0 }, { x: -2, y: 0 }, origin, true);
+    expect(pts[Math.floor(pts.length / 2)].y).toBeCloseTo(-2);
+  });
+
+  it("blends a start and end radius mismatch across the sweep", () => {
+    const pts = tessellateArc({ x: 1, y: 0 }, { x: 0, y: 1.1 }, origin, false, 8);
+    expect(pts).toHaveLength(3);
+    expect(Math.hypot(pts[1].x, pts[1].y)).toBeCloseTo(1.05);
+  });
+});
@@ -0,0 +1,67 @@
+// test/workers/transfer.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  decodeHoles,
+  decodePolygons,
+  decodeSlots,
+  encodeHoles,
+  encodePolygons,
+  encodeSlots,
+} from "../../src/workers/transfer";
+import type { DrillHole, DrillSlot, Polygon } from "../../src/types/pcb-model";
+
+const square = (x: number, y: number, size: number) => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+describe("polygons", () => {
+  it("round trips outers and holes of several polygons", () => {
+    const polys: Polygon[] = [
+      { outer: square(0, 0, 10), holes: [square(1, 1, 2), square(5, 5, 1.5)] },
+      { outer: square(20, -3.25, 4), holes: [] },
+      { outer: [{ x: 0.1, y: 0.2 }, { x: 1e-9, y: -7 }, { x: 3, y: 3 }], holes: [square(0, 0, 0.5)] },
+    ];
+    const encoded = encodePolygons(polys);
+
+    expect(encoded.rings).toEqual(new Uint32Array([3, 4, 4, 4, 1, 4, 2, 3, 4]));
+    expect(encoded.coords).toHaveLength((4 * 3 + 4 + 3 + 4) * 2);
+    expect(decodePolygons(encoded)).toEqual(polys);
+  });
+
+  it("round trips an empty layer", () => {
+    const encoded = encodePolygons([]);
+    expect(encoded.coords).toHaveLength(0);
+    expect(encoded.rings).toHaveLength(0);
+    expect(decodePolygons(encoded)).toEqual([]);
+  });
+});
+
+describe("holes", () => {
+  it("round trips positions, diameters and the plated flag", () => {
+    const holes: DrillHole[] = [
+      { x: 1.5, y: -2.25, diameter: 0.3, plated: true },
+      { x: 100, y: 0, diameter: 3.2, plated: false },
+    ];
+    const data = encodeHoles(holes);
+    expect(data).toHaveLength(8);
+    expect(decodeHoles(data)).toEqual(holes);
+    expect(decodeHoles(encodeHoles([]))).toEqual([]);
+  });
+});
+
+describe("slots", () => {
+  it("round trips ends, width and the plated flag", () => {
+    const slots: DrillSlot[] = [
+      { start: { x: 0, y: 0 }, end: { x: 5, y: 0.5 }, width: 0.8, plated: true },
+      { start: { x: -1, y: 2 }, end: { x: -1, y: 6 }, width: 1.2, plated: false },
+    ];
+    const data = encodeSlots(slots);
+    expect(data).toHaveLength(12);
+    expect(decodeSlots(data)).toEqual(slots);
+    expect(decodeSlots(encodeSlots([]))).toEqual([]);
+  });
+});